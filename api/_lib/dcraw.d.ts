@@ -0,0 +1,27 @@
+/**
+ * Type declarations for the dcraw.js (Emscripten) package
+ * Only the options used by the upload pipeline are listed
+ */
+
+declare module 'dcraw' {
+  export interface DcrawOptions {
+    verbose?: boolean;
+    identify?: boolean;
+    extractThumbnail?: boolean;
+    useCameraWhiteBalance?: boolean;
+    useAverageWhiteBalance?: boolean;
+    setNoAutoBrightnessMode?: boolean;
+    use16BitMode?: boolean;
+    use16BitLinearMode?: boolean;
+    exportAsTiff?: boolean;
+  }
+
+  /**
+   * Returns the written file, several files keyed by name,
+   * or the captured stdout if nothing was written
+   */
+  export default function dcraw(
+    buffer: Uint8Array,
+    options?: DcrawOptions
+  ): Uint8Array | Record<string, Uint8Array> | string;
+}
@@ -0,0 +1,184 @@
+/**
+ * DNG Reader
+ * Walks the TIFF/DNG directory structure (IFDs and SubIFDs) to find
+ * the raw image, embedded JPEG previews and basic camera metadata
+ *
+ * Only the container is parsed; pixel data is decoded by dcraw / sharp.
+ */
+
+import { TiffFormatError, numbers, openTiff, text, type Ifd } from './tiff';
+
+export interface DngPreview {
+  /** Byte offset of the JPEG data in the file */
+  offset: number;
+  length: number;
+  width?: number;
+  height?: number;
+}
+
+export interface DngInfo {
+  make?: string;
+  model?: string;
+  /** DNG version, e.g. "1.4.0.0" */
+  dngVersion: string;
+  /** EXIF orientation (1-8) */
+  orientation: number;
+  /** Size of the raw image (after DefaultCropSize, before orientation) */
+  width: number;
+  height: number;
+  previews: DngPreview[];
+}
+
+/**
+ * The file is a TIFF but not a usable DNG
+ */
+export class DngFormatError extends TiffFormatError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DngFormatError';
+  }
+}
+
+// TIFF tags used here
+const TAG = {
+  NEW_SUBFILE_TYPE: 0x00fe,
+  IMAGE_WIDTH: 0x0100,
+  IMAGE_LENGTH: 0x0101,
+  COMPRESSION: 0x0103,
+  PHOTOMETRIC: 0x0106,
+  MAKE: 0x010f,
+  MODEL: 0x0110,
+  STRIP_OFFSETS: 0x0111,
+  ORIENTATION: 0x0112,
+  STRIP_BYTE_COUNTS: 0x0117,
+  JPEG_INTERCHANGE_FORMAT: 0x0201,
+  JPEG_INTERCHANGE_FORMAT_LENGTH: 0x0202,
+  DNG_VERSION: 0xc612,
+  DEFAULT_CROP_SIZE: 0xc620,
+} as const;
+
+const COMPRESSION_OLD_JPEG = 6;
+const COMPRESSION_JPEG = 7;
+const PHOTOMETRIC_CFA = 32803;
+const PHOTOMETRIC_LINEAR_RAW = 34892;
+
+/**
+ * Parse the directory structure of a DNG file
+ * Throws TiffFormatError / DngFormatError with a specific message for unusable files
+ */
+export function readDngInfo(buffer: Buffer): DngInfo {
+  const ifds = openTiff(buffer).readAllIfds();
+  const ifd0 = ifds[0];
+
+  const dngVersion = ifd0.get(TAG.DNG_VERSION);
+  if (!Array.isArray(dngVersion)) {
+    throw new DngFormatError('Datei ist ein TIFF, aber kein DNG (DNGVersion fehlt)');
+  }
+
+  const main = findMainImage(ifds);
+  if (!main) {
+    throw new DngFormatError('DNG enthält keine RAW-Bilddaten');
+  }
+
+  const cropSize = numbers(main, TAG.DEFAULT_CROP_SIZE);
+  const width = cropSize?.[0] ?? numbers(main, TAG.IMAGE_WIDTH)?.[0] ?? 0;
+  const height = cropSize?.[1] ?? numbers(main, TAG.IMAGE_LENGTH)?.[0] ?? 0;
+  if (!width || !height) {
+    throw new DngFormatError('DNG ist beschädigt: Bildgröße fehlt');
+  }
+
+  return {
+    make: text(ifd0, TAG.MAKE),
+    model: text(ifd0, TAG.MODEL),
+    dngVersion: dngVersion.join('.'),
+    orientation: numbers(ifd0, TAG.ORIENTATION)?.[0] ?? 1,
+    width: Math.round(width),
+    height: Math.round(height),
+    previews: ifds
+      .map((ifd) => findPreview(ifd, buffer))
+      .filter((preview): preview is DngPreview => preview !== null),
+  };
+}
+
+/**
+ * Largest embedded JPEG preview, if any
+ */
+export function getLargestPreview(info: DngInfo): DngPreview | undefined {
+  return info.previews.reduce<DngPreview | undefined>(
+    (largest, preview) => (!largest || preview.length > largest.length ? preview : largest),
+    undefined
+  );
+}
+
+/**
+ * Clockwise rotation in degrees for an EXIF orientation (mirroring is ignored)
+ */
+export function orientationToRotation(orientation: number): number {
+  switch (orientation) {
+    case 3:
+    case 4:
+      return 180;
+    case 5:
+    case 6:
+      return 90;
+    case 7:
+    case 8:
+      return 270;
+    default:
+      return 0;
+  }
+}
+
+/**
+ * The full-resolution raw image: NewSubFileType 0 with CFA or linear raw data
+ */
+function findMainImage(ifds: Ifd[]): Ifd | undefined {
+  return ifds
+    .filter((ifd) => (numbers(ifd, TAG.NEW_SUBFILE_TYPE)?.[0] ?? 0) === 0)
+    .filter((ifd) => {
+      const photometric = numbers(ifd, TAG.PHOTOMETRIC)?.[0];
+      return photometric === PHOTOMETRIC_CFA || photometric === PHOTOMETRIC_LINEAR_RAW;
+    })
+    .sort((a, b) => pixelCount(b) - pixelCount(a))[0];
+}
+
+/**
+ * JPEG preview referenced by an IFD, either via JPEGInterchangeFormat
+ * or as a single JPEG strip (PreviewImageStart/Length in exiftool terms)
+ */
+function findPreview(ifd: Ifd, buffer: Buffer): DngPreview | null {
+  let offset = numbers(ifd, TAG.JPEG_INTERCHANGE_FORMAT)?.[0];
+  let length = numbers(ifd, TAG.JPEG_INTERCHANGE_FORMAT_LENGTH)?.[0];
+
+  if (offset === undefined || length === undefined) {
+    const compression = numbers(ifd, TAG.COMPRESSION)?.[0];
+    const photometric = numbers(ifd, TAG.PHOTOMETRIC)?.[0];
+    const strips = numbers(ifd, TAG.STRIP_OFFSETS);
+    const stripLengths = numbers(ifd, TAG.STRIP_BYTE_COUNTS);
+
+    // Lossless JPEG raw data uses the same compression, skip it
+    const isRaw = photometric === PHOTOMETRIC_CFA || photometric === PHOTOMETRIC_LINEAR_RAW;
+    const isJpeg = compression === COMPRESSION_JPEG || compression === COMPRESSION_OLD_JPEG;
+    if (isRaw || !isJpeg || strips?.length !== 1 || stripLengths?.length !== 1) {
+      return null;
+    }
+
+    offset = strips[0];
+    length = stripLengths[0];
+  }
+
+  // Skip truncated or mislabelled data
+  if (length <= 0 || offset + length > buffer.length) return null;
+  if (buffer[offset] !== 0xff || buffer[offset + 1] !== 0xd8) return null;
+
+  return {
+    offset,
+    length,
+    width: numbers(ifd, TAG.IMAGE_WIDTH)?.[0],
+    height: numbers(ifd, TAG.IMAGE_LENGTH)?.[0],
+  };
+}
+
+function pixelCount(ifd: Ifd): number {
+  return (numbers(ifd, TAG.IMAGE_WIDTH)?.[0] ?? 0) * (numbers(ifd, TAG.IMAGE_LENGTH)?.[0] ?? 0);
+}
@@ -0,0 +1,237 @@
+/**
+ * Image Metadata
+ * Reads capture date, GPS position, heading and partial-panorama crop
+ * from the EXIF (TIFF) and XMP (GPano) metadata of an upload
+ */
+
+import sharp from 'sharp';
+import { bytes, numbers, openTiff, text, type Ifd, type TiffReader } from './tiff';
+
+export interface GpsPosition {
+  latitude: number;
+  longitude: number;
+  /** Meters above sea level */
+  altitude?: number;
+}
+
+/**
+ * Position of a partial panorama in the full sphere (GPano, in original pixels)
+ */
+export interface PanoramaCrop {
+  fullWidth: number;
+  fullHeight: number;
+  croppedWidth: number;
+  croppedHeight: number;
+  croppedX: number;
+  croppedY: number;
+}
+
+export interface PanoramaMetadata {
+  /** Local capture time as ISO 8601 (with offset if the camera recorded one) */
+  capturedAt?: string;
+  gps?: GpsPosition;
+  /** Compass heading of the image center in degrees (0 = north) */
+  heading?: number;
+  camera?: string;
+  crop?: PanoramaCrop;
+}
+
+// EXIF tags used here
+const TAG = {
+  MAKE: 0x010f,
+  MODEL: 0x0110,
+  DATE_TIME: 0x0132,
+  XMP: 0x02bc,
+  EXIF_IFD: 0x8769,
+  GPS_IFD: 0x8825,
+  DATE_TIME_ORIGINAL: 0x9003,
+  OFFSET_TIME_ORIGINAL: 0x9011,
+} as const;
+
+const GPS_TAG = {
+  LATITUDE_REF: 0x0001,
+  LATITUDE: 0x0002,
+  LONGITUDE_REF: 0x0003,
+  LONGITUDE: 0x0004,
+  ALTITUDE_REF: 0x0005,
+  ALTITUDE: 0x0006,
+  IMG_DIRECTION: 0x0011,
+} as const;
+
+/** sharp returns the EXIF block including its APP1 identifier */
+const EXIF_HEADER = 'Exif\0\0';
+
+/**
+ * Read the metadata of an uploaded file
+ * Missing or broken metadata never fails the upload, fields are just left out
+ */
+export async function readImageMetadata(buffer: Buffer, isDng: boolean): Promise<PanoramaMetadata> {
+  let exif: Buffer | undefined;
+  let xmp: Buffer | undefined;
+
+  if (isDng) {
+    // A DNG is a TIFF itself, EXIF and XMP live in IFD0
+    exif = buffer;
+  } else {
+    try {
+      const info = await sharp(buffer).metadata();
+      exif = info.exif;
+      xmp = info.xmp;
+    } catch (error) {
+      console.warn('Could not read image metadata:', error);
+      return {};
+    }
+  }
+
+  const metadata: PanoramaMetadata = {};
+
+  if (exif) {
+    try {
+      const tiffData = exif.toString('latin1', 0, EXIF_HEADER.length) === EXIF_HEADER
+        ? exif.subarray(EXIF_HEADER.length)
+        : exif;
+      const { xmp: embeddedXmp, ...fields } = readExif(openTiff(tiffData));
+      Object.assign(metadata, fields);
+      xmp ??= embeddedXmp;
+    } catch (error) {
+      console.warn('Could not parse EXIF data:', error);
+    }
+  }
+
+  if (xmp) {
+    const gpano = readGPano(xmp.toString('utf8'));
+    // GPano describes the panorama itself, it wins over the compass of the camera
+    if (gpano.heading !== undefined) metadata.heading = gpano.heading;
+    if (gpano.crop) metadata.crop = gpano.crop;
+  }
+
+  return metadata;
+}
+
+/**
+ * Fields from IFD0 and the EXIF / GPS sub-IFDs
+ */
+function readExif(reader: TiffReader): PanoramaMetadata & { xmp?: Buffer } {
+  const ifd0 = reader.readIfd(reader.firstIfdOffset);
+  const exifIfd = readPointer(reader, ifd0, TAG.EXIF_IFD);
+  const gpsIfd = readPointer(reader, ifd0, TAG.GPS_IFD);
+
+  const make = text(ifd0, TAG.MAKE);
+  const model = text(ifd0, TAG.MODEL);
+  // Most models already start with the manufacturer name
+  const camera = make && model && !model.toLowerCase().startsWith(make.toLowerCase().split(' ')[0])
+    ? `${make} ${model}`
+    : model ?? make;
+
+  const xmp = ifd0.get(TAG.XMP);
+
+  return {
+    capturedAt: parseExifDate(
+      (exifIfd && text(exifIfd, TAG.DATE_TIME_ORIGINAL)) ?? text(ifd0, TAG.DATE_TIME),
+      exifIfd && text(exifIfd, TAG.OFFSET_TIME_ORIGINAL)
+    ),
+    camera,
+    ...(gpsIfd ? readGps(gpsIfd) : {}),
+    // Short XMP packets are stored as a number array
+    xmp: Buffer.isBuffer(xmp) ? xmp : Array.isArray(xmp) ? Buffer.from(xmp) : undefined,
+  };
+}
+
+/**
+ * Follow a pointer tag (EXIF / GPS IFD); broken pointers are ignored
+ */
+function readPointer(reader: TiffReader, ifd: Ifd, tag: number): Ifd | undefined {
+  const offset = numbers(ifd, tag)?.[0];
+  if (!offset) return undefined;
+
+  try {
+    return reader.readIfd(offset);
+  } catch {
+    return undefined;
+  }
+}
+
+function readGps(ifd: Ifd): Pick<PanoramaMetadata, 'gps' | 'heading'> {
+  const result: Pick<PanoramaMetadata, 'gps' | 'heading'> = {};
+
+  const latitude = toDegrees(numbers(ifd, GPS_TAG.LATITUDE), text(ifd, GPS_TAG.LATITUDE_REF) === 'S');
+  const longitude = toDegrees(numbers(ifd, GPS_TAG.LONGITUDE), text(ifd, GPS_TAG.LONGITUDE_REF) === 'W');
+  if (latitude !== undefined && longitude !== undefined && Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180) {
+    result.gps = { latitude, longitude };
+
+    const altitude = numbers(ifd, GPS_TAG.ALTITUDE)?.[0];
+    if (altitude !== undefined) {
+      // AltitudeRef is a BYTE: 1 = below sea level
+      const below = (numbers(ifd, GPS_TAG.ALTITUDE_REF) ?? bytes(ifd, GPS_TAG.ALTITUDE_REF))?.[0] === 1;
+      result.gps.altitude = below ? -altitude : altitude;
+    }
+  }
+
+  const direction = numbers(ifd, GPS_TAG.IMG_DIRECTION)?.[0];
+  if (direction !== undefined && direction >= 0 && direction <= 360) {
+    result.heading = direction % 360;
+  }
+
+  return result;
+}
+
+/**
+ * Degrees, minutes, seconds to signed decimal degrees
+ */
+function toDegrees(dms: number[] | undefined, negative: boolean): number | undefined {
+  if (!dms || dms.length < 3 || dms.some((v) => !Number.isFinite(v))) return undefined;
+  const degrees = dms[0] + dms[1] / 60 + dms[2] / 3600;
+  return negative ? -degrees : degrees;
+}
+
+/**
+ * "YYYY:MM:DD HH:MM:SS" (+ optional "+HH:MM" offset) to ISO 8601
+ */
+function parseExifDate(value: string | undefined, offset: string | undefined): string | undefined {
+  const match = value?.match(/^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/);
+  // Cameras without a set clock write zeros
+  if (!match || match[1] === '0000') return undefined;
+
+  const [, year, month, day, hours, minutes, seconds] = match;
+  const zone = offset && /^[+-]\d{2}:\d{2}$/.test(offset) ? offset : '';
+  return `${year}-${month}-${day}T${hours}:${minutes}:${seconds}${zone}`;
+}
+
+/**
+ * GPano properties from an XMP packet (attribute or element syntax)
+ */
+function readGPano(xmp: string): Pick<PanoramaMetadata, 'heading' | 'crop'> {
+  const read = (name: string): number | undefined => {
+    const match = xmp.match(new RegExp(`GPano:${name}\\s*(?:=\\s*["']([^"']*)["']|>([^<]*)<)`));
+    if (!match) return undefined;
+    const value = Number((match[1] ?? match[2]).trim());
+    return Number.isFinite(value) ? value : undefined;
+  };
+
+  const result: Pick<PanoramaMetadata, 'heading' | 'crop'> = {};
+
+  const heading = read('PoseHeadingDegrees');
+  if (heading !== undefined) {
+    result.heading = ((heading % 360) + 360) % 360;
+  }
+
+  const crop: PanoramaCrop = {
+    fullWidth: read('FullPanoWidthPixels') ?? 0,
+    fullHeight: read('FullPanoHeightPixels') ?? 0,
+    croppedWidth: read('CroppedAreaImageWidthPixels') ?? 0,
+    croppedHeight: read('CroppedAreaImageHeightPixels') ?? 0,
+    croppedX: read('CroppedAreaLeftPixels') ?? 0,
+    croppedY: read('CroppedAreaTopPixels') ?? 0,
+  };
+
+  const isValid = crop.croppedWidth > 0 && crop.croppedHeight > 0
+    && crop.croppedWidth <= crop.fullWidth && crop.croppedHeight <= crop.fullHeight
+    && crop.croppedX >= 0 && crop.croppedY >= 0 && crop.croppedY + crop.croppedHeight <= crop.fullHeight;
+  // A "crop" that covers the whole sphere needs no special handling
+  const isPartial = crop.croppedWidth < crop.fullWidth || crop.croppedHeight < crop.fullHeight;
+  if (isValid && isPartial) {
+    result.crop = crop;
+  }
+
+  return result;
+}
@@ -0,0 +1,96 @@
+/**
+ * Multipart Parsing
+ * Minimal multipart/form-data parser for the upload routes.
+ * The whole body is held in memory, the first file part is returned.
+ */
+
+import type { VercelRequest } from '@vercel/node';
+
+export interface MultipartFile {
+  name: string;
+  contentType?: string;
+  data: Buffer;
+}
+
+export interface MultipartBody {
+  /** Plain form fields */
+  fields: Record<string, string>;
+  file: MultipartFile | null;
+}
+
+/**
+ * Boundary from the Content-Type header, or null if it is not multipart/form-data
+ */
+export function getBoundary(contentType: string): string | null {
+  if (!contentType.includes('multipart/form-data')) return null;
+  const match = contentType.match(/boundary=(?:"([^"]+)"|([^;]+))/);
+  return match ? (match[1] ?? match[2]).trim() : null;
+}
+
+/**
+ * Read the raw request body
+ */
+export async function readBody(req: VercelRequest): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
+export function parseMultipart(body: Buffer, boundary: string): MultipartBody {
+  const parts = splitBuffer(body, Buffer.from(`--${boundary}`));
+  const fields: Record<string, string> = {};
+  let file: MultipartFile | null = null;
+
+  for (const part of parts) {
+    const headerEnd = part.indexOf(Buffer.from('\r\n\r\n'));
+    if (headerEnd === -1) continue;
+
+    const headerStr = part.slice(0, headerEnd).toString();
+    if (!headerStr.includes('Content-Disposition')) continue;
+
+    // Content without the CRLF in front of the next boundary
+    let content = part.slice(headerEnd + 4);
+    if (content.length >= 2 && content[content.length - 2] === 13 && content[content.length - 1] === 10) {
+      content = content.slice(0, -2);
+    }
+
+    const fileNameMatch = headerStr.match(/filename="([^"]*)"/);
+    if (!fileNameMatch) {
+      const nameMatch = headerStr.match(/name="([^"]+)"/);
+      if (nameMatch) {
+        fields[nameMatch[1]] = content.toString();
+      }
+    } else if (!file) {
+      file = {
+        name: fileNameMatch[1],
+        contentType: headerStr.match(/Content-Type:\s*([^\r\n]+)/i)?.[1].trim(),
+        data: content,
+      };
+    }
+  }
+
+  return { fields, file };
+}
+
+// Helper: Split buffer by delimiter
+function splitBuffer(buffer: Buffer, delimiter: Buffer): Buffer[] {
+  const parts: Buffer[] = [];
+  let start = 0;
+  let index = buffer.indexOf(delimiter, start);
+
+  while (index !== -1) {
+    if (index > start) {
+      parts.push(buffer.slice(start, index));
+    }
+    start = index + delimiter.length;
+    index = buffer.indexOf(delimiter, start);
+  }
+
+  if (start < buffer.length) {
+    parts.push(buffer.slice(start));
+  }
+
+  return parts;
+}
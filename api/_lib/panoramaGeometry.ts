@@ -0,0 +1,106 @@
+/**
+ * Panorama Geometry
+ * Detects partial (non-2:1) panoramas and describes where they sit in the
+ * full sphere, so the viewer can render them without stretching
+ */
+
+import type { PanoramaCrop } from './imageMetadata';
+
+/** Aspect ratios treated as a full 360°x180° equirectangular image */
+const FULL_SPHERE_MIN_RATIO = 1.8;
+const FULL_SPHERE_MAX_RATIO = 2.2;
+
+/** Allowed values for the horizontal coverage form field */
+const MIN_HORIZONTAL_FOV = 10;
+const MAX_HORIZONTAL_FOV = 360;
+
+/**
+ * The given coverage does not fit the image
+ */
+export class PanoramaGeometryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PanoramaGeometryError';
+  }
+}
+
+export interface PanoramaGeometry {
+  /** Undefined for full spheres */
+  crop?: PanoramaCrop;
+  /** True if the crop was guessed from the aspect ratio alone */
+  inferred: boolean;
+}
+
+/**
+ * Read the horizontal coverage in degrees from upload form fields
+ * Empty means "automatic", invalid values throw
+ */
+export function parseHorizontalFov(fields: Record<string, string | undefined>): number | undefined {
+  if (!fields.horizontalFov) return undefined;
+
+  const fov = Number(fields.horizontalFov);
+  if (!Number.isFinite(fov) || fov < MIN_HORIZONTAL_FOV || fov > MAX_HORIZONTAL_FOV) {
+    throw new Error(`Horizontaler Bildwinkel muss zwischen ${MIN_HORIZONTAL_FOV}° und ${MAX_HORIZONTAL_FOV}° liegen`);
+  }
+  return fov;
+}
+
+/**
+ * Work out the crop of an image in the full sphere
+ *
+ * Priority: coverage given by the author, then GPano metadata, then a guess
+ * from the aspect ratio (wide strips cover 360° horizontally, narrow images
+ * cover 180° vertically). The image is always centered on the horizon.
+ */
+export function resolvePanoramaGeometry(
+  width: number,
+  height: number,
+  horizontalFov: number | undefined,
+  metadataCrop: PanoramaCrop | undefined
+): PanoramaGeometry {
+  if (horizontalFov !== undefined) {
+    const fullWidth = Math.round(width * (360 / horizontalFov));
+    const fullHeight = Math.round(fullWidth / 2);
+    if (height > fullHeight) {
+      throw new PanoramaGeometryError(`Ein Bildwinkel von ${horizontalFov}° passt nicht zum Seitenverhältnis ${(width / height).toFixed(2)}:1 (Bild wäre höher als 180°)`);
+    }
+    return { crop: centeredCrop(width, height, fullWidth, fullHeight), inferred: false };
+  }
+
+  if (metadataCrop) {
+    return { crop: metadataCrop, inferred: false };
+  }
+
+  const aspectRatio = width / height;
+  if (aspectRatio >= FULL_SPHERE_MIN_RATIO && aspectRatio <= FULL_SPHERE_MAX_RATIO) {
+    return { inferred: false };
+  }
+
+  return aspectRatio > FULL_SPHERE_MAX_RATIO
+    ? { crop: centeredCrop(width, height, width, Math.round(width / 2)), inferred: true }
+    : { crop: centeredCrop(width, height, height * 2, height), inferred: true };
+}
+
+/**
+ * Covered angles in degrees (horizontal, vertical)
+ */
+export function getCoverage(crop: PanoramaCrop): { horizontal: number; vertical: number } {
+  return {
+    horizontal: (crop.croppedWidth / crop.fullWidth) * 360,
+    vertical: (crop.croppedHeight / crop.fullHeight) * 180,
+  };
+}
+
+function centeredCrop(width: number, height: number, fullWidth: number, fullHeight: number): PanoramaCrop | undefined {
+  // Full coverage in both directions is a regular equirectangular image
+  if (width >= fullWidth && height >= fullHeight) return undefined;
+
+  return {
+    fullWidth,
+    fullHeight,
+    croppedWidth: width,
+    croppedHeight: height,
+    croppedX: Math.round((fullWidth - width) / 2),
+    croppedY: Math.round((fullHeight - height) / 2),
+  };
+}
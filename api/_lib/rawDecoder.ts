@@ -0,0 +1,167 @@
+/**
+ * RAW Decoder
+ * Develops DNG files with dcraw into a 16-bit sRGB intermediate
+ *
+ * dcraw.js 1.0.x only supports flag options (options with a value such as
+ * -H or -b crash its argument wrapper), so dcraw demosaics and white-balances
+ * into linear 16-bit, and exposure, highlight roll-off and the sRGB curve
+ * are applied here.
+ */
+
+import dcraw from 'dcraw';
+import sharp from 'sharp';
+
+export type WhiteBalanceMode = 'camera' | 'auto' | 'daylight';
+export type HighlightMode = 'clip' | 'recover';
+
+export interface RawDevelopOptions {
+  /** camera: as shot, auto: average of the whole image, daylight: dcraw's fixed multipliers */
+  whiteBalance: WhiteBalanceMode;
+  /** Exposure correction in EV, applied on top of auto exposure */
+  exposure: number;
+  /** clip: hard clip at white, recover: soft roll-off of the brightest tones */
+  highlights: HighlightMode;
+}
+
+export interface RawImage {
+  /** Interleaved 16-bit sRGB pixels */
+  data: Uint16Array;
+  width: number;
+  height: number;
+  channels: 3;
+}
+
+export const DEFAULT_RAW_OPTIONS: RawDevelopOptions = {
+  whiteBalance: 'camera',
+  exposure: 0,
+  highlights: 'recover',
+};
+
+const WHITE_BALANCE_MODES: WhiteBalanceMode[] = ['camera', 'auto', 'daylight'];
+const HIGHLIGHT_MODES: HighlightMode[] = ['clip', 'recover'];
+
+/** Allowed exposure correction in EV (both directions) */
+const MAX_EXPOSURE = 3;
+
+/** Share of pixels that auto exposure lets clip (same as dcraw) */
+const AUTO_EXPOSURE_CLIP = 0.01;
+
+/** Linear value where the highlight roll-off starts */
+const HIGHLIGHT_KNEE = 0.75;
+
+/**
+ * Read develop options from upload form fields
+ * Missing fields use the defaults, invalid values throw
+ */
+export function parseRawOptions(fields: Record<string, string | undefined>): RawDevelopOptions {
+  const options = { ...DEFAULT_RAW_OPTIONS };
+
+  if (fields.whiteBalance) {
+    if (!WHITE_BALANCE_MODES.includes(fields.whiteBalance as WhiteBalanceMode)) {
+      throw new Error(`Ungültiger Weißabgleich: ${fields.whiteBalance}`);
+    }
+    options.whiteBalance = fields.whiteBalance as WhiteBalanceMode;
+  }
+
+  if (fields.exposure) {
+    const exposure = Number(fields.exposure);
+    if (!Number.isFinite(exposure) || Math.abs(exposure) > MAX_EXPOSURE) {
+      throw new Error(`Belichtung muss zwischen -${MAX_EXPOSURE} und +${MAX_EXPOSURE} EV liegen`);
+    }
+    options.exposure = exposure;
+  }
+
+  if (fields.highlights) {
+    if (!HIGHLIGHT_MODES.includes(fields.highlights as HighlightMode)) {
+      throw new Error(`Ungültiger Lichter-Modus: ${fields.highlights}`);
+    }
+    options.highlights = fields.highlights as HighlightMode;
+  }
+
+  return options;
+}
+
+/**
+ * Demosaic a RAW file and develop it into 16-bit sRGB
+ */
+export async function decodeRaw(buffer: Buffer, options: RawDevelopOptions): Promise<RawImage> {
+  // The wrapper passes every defined option as a flag, so unused ones must be undefined
+  const output = dcraw(buffer, {
+    exportAsTiff: true,
+    use16BitLinearMode: true,
+    useCameraWhiteBalance: options.whiteBalance === 'camera' || undefined,
+    useAverageWhiteBalance: options.whiteBalance === 'auto' || undefined,
+  });
+
+  if (!(output instanceof Uint8Array) || output.length === 0) {
+    throw new Error('dcraw konnte die RAW-Daten nicht dekodieren');
+  }
+
+  const { data, info } = await sharp(output)
+    .raw({ depth: 'ushort' })
+    .toBuffer({ resolveWithObject: true });
+
+  if (info.channels !== 3) {
+    throw new Error(`Unerwartete Kanalanzahl nach RAW-Dekodierung: ${info.channels}`);
+  }
+
+  // Uint16Array views need an even byte offset
+  const pixels = data.byteOffset % 2 === 0
+    ? new Uint16Array(data.buffer, data.byteOffset, data.byteLength / 2)
+    : new Uint16Array(new Uint8Array(data).buffer);
+
+  const gain = autoExposureGain(pixels) * 2 ** options.exposure;
+  const curve = createToneCurve(gain, options.highlights);
+  for (let i = 0; i < pixels.length; i++) {
+    pixels[i] = curve[pixels[i]];
+  }
+
+  return { data: pixels, width: info.width, height: info.height, channels: 3 };
+}
+
+/**
+ * Gain that maps the brightest 1% of the image to white
+ */
+function autoExposureGain(pixels: Uint16Array): number {
+  const histogram = new Uint32Array(65536);
+  for (let i = 0; i < pixels.length; i += 3) {
+    histogram[Math.max(pixels[i], pixels[i + 1], pixels[i + 2])]++;
+  }
+
+  const limit = (pixels.length / 3) * AUTO_EXPOSURE_CLIP;
+  let count = 0;
+  let white = 65535;
+  for (; white > 0; white--) {
+    count += histogram[white];
+    if (count > limit) break;
+  }
+
+  return white > 0 ? 65535 / white : 1;
+}
+
+/**
+ * Lookup table from linear 16-bit to developed sRGB 16-bit
+ */
+function createToneCurve(gain: number, highlights: HighlightMode): Uint16Array {
+  const curve = new Uint16Array(65536);
+  const range = 1 - HIGHLIGHT_KNEE;
+
+  for (let value = 0; value < curve.length; value++) {
+    let linear = (value / 65535) * gain;
+
+    // Compress instead of clipping, keeps detail in skies and windows
+    if (highlights === 'recover' && linear > HIGHLIGHT_KNEE) {
+      linear = HIGHLIGHT_KNEE + range * (1 - Math.exp(-(linear - HIGHLIGHT_KNEE) / range));
+    }
+
+    curve[value] = Math.round(encodeSrgb(Math.min(linear, 1)) * 65535);
+  }
+
+  return curve;
+}
+
+function encodeSrgb(linear: number): number {
+  return linear <= 0.0031308
+    ? linear * 12.92
+    : 1.055 * Math.pow(linear, 1 / 2.4) - 0.055;
+}
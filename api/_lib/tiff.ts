@@ -0,0 +1,205 @@
+/**
+ * TIFF Reader
+ * Minimal reader for TIFF structures (DNG files and EXIF blocks)
+ */
+
+/**
+ * The data is not a readable TIFF structure (wrong format or corrupted)
+ */
+export class TiffFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TiffFormatError';
+  }
+}
+
+/** Tag values: numbers, ASCII text or raw bytes */
+export type TiffValue = number[] | string | Buffer;
+export type Ifd = Map<number, TiffValue>;
+
+/** Byte size per TIFF field type */
+const TYPE_SIZES: Record<number, number> = {
+  1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8, 13: 4,
+};
+
+const TAG_SUB_IFDS = 0x014a;
+
+/** Protection against cyclic or absurd directory structures */
+const MAX_IFDS = 64;
+
+/** Numeric arrays are cut off after this many values */
+const MAX_VALUES = 1024;
+
+/**
+ * Check the TIFF header and create a reader for the structure
+ */
+export function openTiff(buffer: Buffer): TiffReader {
+  if (buffer.length < 8) {
+    throw new TiffFormatError('Datei ist zu klein für ein TIFF');
+  }
+
+  const byteOrder = buffer.toString('latin1', 0, 2);
+  if (byteOrder !== 'II' && byteOrder !== 'MM') {
+    throw new TiffFormatError('Datei ist kein TIFF/DNG (unbekannte Byte-Reihenfolge)');
+  }
+
+  const reader = new TiffReader(buffer, byteOrder === 'II');
+  if (reader.uint16(2) !== 42) {
+    throw new TiffFormatError('Datei ist kein TIFF/DNG (ungültige TIFF-Kennung)');
+  }
+  return reader;
+}
+
+export function numbers(ifd: Ifd, tag: number): number[] | undefined {
+  const value = ifd.get(tag);
+  return Array.isArray(value) && value.length > 0 ? value : undefined;
+}
+
+export function text(ifd: Ifd, tag: number): string | undefined {
+  const value = ifd.get(tag);
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+export function bytes(ifd: Ifd, tag: number): Buffer | undefined {
+  const value = ifd.get(tag);
+  return Buffer.isBuffer(value) ? value : undefined;
+}
+
+/**
+ * Bounds-checked TIFF field access
+ */
+export class TiffReader {
+  constructor(
+    private buffer: Buffer,
+    private littleEndian: boolean
+  ) {}
+
+  /**
+   * Offset of the first IFD (IFD0)
+   */
+  get firstIfdOffset(): number {
+    return this.uint32(4);
+  }
+
+  uint16(offset: number): number {
+    this.check(offset, 2);
+    return this.littleEndian ? this.buffer.readUInt16LE(offset) : this.buffer.readUInt16BE(offset);
+  }
+
+  uint32(offset: number): number {
+    this.check(offset, 4);
+    return this.littleEndian ? this.buffer.readUInt32LE(offset) : this.buffer.readUInt32BE(offset);
+  }
+
+  /**
+   * Read the IFD chain starting at `offset` including all SubIFDs
+   */
+  readAllIfds(offset = this.firstIfdOffset): Ifd[] {
+    const ifds: Ifd[] = [];
+    const visited = new Set<number>();
+    const queue = [offset];
+
+    while (queue.length > 0) {
+      const next = queue.shift()!;
+      if (next === 0 || visited.has(next)) continue;
+      if (visited.size >= MAX_IFDS) {
+        throw new TiffFormatError('Datei ist beschädigt: zu viele Bildverzeichnisse');
+      }
+      visited.add(next);
+
+      const ifd = this.readIfd(next);
+      ifds.push(ifd);
+
+      const subIfds = ifd.get(TAG_SUB_IFDS);
+      if (Array.isArray(subIfds)) queue.push(...subIfds);
+
+      // Offset of the next IFD in the chain follows the entries
+      const count = this.uint16(next);
+      queue.push(this.uint32(next + 2 + count * 12));
+    }
+
+    if (ifds.length === 0) {
+      throw new TiffFormatError('Datei ist beschädigt: kein Bildverzeichnis gefunden');
+    }
+    return ifds;
+  }
+
+  /**
+   * Read a single IFD (e.g. the EXIF or GPS IFD a pointer tag refers to)
+   */
+  readIfd(offset: number): Ifd {
+    const ifd: Ifd = new Map();
+    const count = this.uint16(offset);
+
+    for (let i = 0; i < count; i++) {
+      const entry = offset + 2 + i * 12;
+      const tag = this.uint16(entry);
+      const type = this.uint16(entry + 2);
+      const valueCount = this.uint32(entry + 4);
+
+      const size = TYPE_SIZES[type];
+      if (!size) continue; // Unknown type, skip per TIFF spec
+
+      const byteLength = size * valueCount;
+      const valueOffset = byteLength <= 4 ? entry + 8 : this.uint32(entry + 8);
+      // A broken value (e.g. in a maker note) does not make the whole file unusable
+      if (valueOffset + byteLength > this.buffer.length) continue;
+
+      if (type === 2) {
+        ifd.set(tag, this.buffer.toString('latin1', valueOffset, valueOffset + byteLength).replace(/\0[\s\S]*$/, '').trim());
+      } else if (type === 7 || (type === 1 && valueCount > MAX_VALUES)) {
+        // Opaque or large byte blocks (e.g. XMP packets) stay raw
+        ifd.set(tag, this.buffer.subarray(valueOffset, valueOffset + byteLength));
+      } else {
+        ifd.set(tag, this.readValues(type, valueOffset, valueCount));
+      }
+    }
+
+    return ifd;
+  }
+
+  /**
+   * Numeric values (signed types are read as unsigned, which is fine for the tags used)
+   */
+  private readValues(type: number, offset: number, count: number): number[] {
+    const values: number[] = [];
+    // Large arrays (e.g. tile offsets) are not needed here
+    const limit = Math.min(count, MAX_VALUES);
+
+    for (let i = 0; i < limit; i++) {
+      switch (type) {
+        case 3:
+        case 8:
+          values.push(this.uint16(offset + i * 2));
+          break;
+        case 4:
+        case 9:
+        case 13:
+          values.push(this.uint32(offset + i * 4));
+          break;
+        case 11:
+          values.push(this.littleEndian ? this.buffer.readFloatLE(offset + i * 4) : this.buffer.readFloatBE(offset + i * 4));
+          break;
+        case 12:
+          values.push(this.littleEndian ? this.buffer.readDoubleLE(offset + i * 8) : this.buffer.readDoubleBE(offset + i * 8));
+          break;
+        case 5:
+        case 10: {
+          const denominator = this.uint32(offset + i * 8 + 4);
+          values.push(denominator ? this.uint32(offset + i * 8) / denominator : 0);
+          break;
+        }
+        default:
+          values.push(this.buffer[offset + i]);
+      }
+    }
+
+    return values;
+  }
+
+  private check(offset: number, length: number): void {
+    if (offset < 0 || offset + length > this.buffer.length) {
+      throw new TiffFormatError('Datei ist beschädigt: Verweis außerhalb der Datei');
+    }
+  }
+}
@@ -0,0 +1,119 @@
+/**
+ * Tile Pyramid
+ * Cuts large equirectangular panoramas into tiles for several zoom levels,
+ * in the layout of Photo Sphere Viewer's EquirectangularTilesAdapter:
+ * `{level}/{col}_{row}.webp`, levels ordered from small to large
+ */
+
+import sharp from 'sharp';
+
+export interface TileLevel {
+  /** Width of the full panorama at this level (height is width / 2) */
+  width: number;
+  /** Power of 2 */
+  cols: number;
+  rows: number;
+}
+
+export interface PanoramaTiles {
+  /** URL prefix, tiles are at `${baseUrl}/${level}/${col}_${row}.webp` */
+  baseUrl: string;
+  levels: TileLevel[];
+}
+
+/** Stores one tile, returns its public URL */
+export type TileWriter = (path: string, data: Buffer) => Promise<string>;
+
+/** Target tile edge length; the real size varies per level */
+const TILE_SIZE = 512;
+
+/** Level widths below the source resolution (the source itself is the last level) */
+const LEVEL_WIDTHS = [2048, 4096, 8192, 16384];
+
+/** The adapter's sphere has 64 segments, more columns are not allowed */
+const MAX_COLS = 64;
+
+/** Parallel uploads, storage requests dominate the processing time */
+const UPLOAD_CONCURRENCY = 8;
+
+const TILE_QUALITY = 85;
+
+/**
+ * Zoom levels for a source of the given width
+ * Empty if the source is too small to benefit from tiles
+ */
+export function planTileLevels(sourceWidth: number, minWidth: number): TileLevel[] {
+  if (sourceWidth <= minWidth) return [];
+
+  const widths = LEVEL_WIDTHS.filter((width) => width < sourceWidth);
+  // Skip the source as extra level if it is barely larger than the previous one
+  const largest = widths[widths.length - 1] ?? 0;
+  if (sourceWidth > largest * 1.1) widths.push(sourceWidth);
+
+  return widths.map((width) => {
+    let cols = 2;
+    while (cols * 2 <= MAX_COLS && width / (cols * 2) >= TILE_SIZE) cols *= 2;
+    // Tiles must divide the level exactly
+    return { width: Math.floor(width / cols) * cols, cols, rows: cols / 2 };
+  });
+}
+
+/**
+ * Render all levels and store their tiles
+ * Returns the URL prefix the tiles are reachable under
+ */
+export async function generateTiles(
+  createImage: () => sharp.Sharp,
+  levels: TileLevel[],
+  prefix: string,
+  write: TileWriter
+): Promise<string> {
+  let firstUrl: string | undefined;
+
+  for (const [index, level] of levels.entries()) {
+    const height = level.width / 2;
+    const tileSize = level.width / level.cols;
+
+    // Decode once per level, cutting tiles from the raw pixels is cheap
+    const { data, info } = await createImage()
+      .resize(level.width, height, { fit: 'fill' })
+      .removeAlpha()
+      .raw({ depth: 'uchar' })
+      .toBuffer({ resolveWithObject: true });
+
+    const tiles: { col: number; row: number }[] = [];
+    for (let row = 0; row < level.rows; row++) {
+      for (let col = 0; col < level.cols; col++) {
+        tiles.push({ col, row });
+      }
+    }
+
+    await runWithConcurrency(tiles, UPLOAD_CONCURRENCY, async ({ col, row }) => {
+      const tile = await sharp(data, { raw: { width: info.width, height: info.height, channels: info.channels } })
+        .extract({ left: col * tileSize, top: row * tileSize, width: tileSize, height: tileSize })
+        .webp({ quality: TILE_QUALITY })
+        .toBuffer();
+
+      const url = await write(`${prefix}/${index}/${col}_${row}.webp`, tile);
+      if (index === 0 && col === 0 && row === 0) firstUrl = url;
+    });
+
+    console.log(`Generated tile level ${index}: ${level.width}x${height}, ${level.cols}x${level.rows} tiles of ${tileSize}px`);
+  }
+
+  if (!firstUrl) {
+    throw new Error('Keine Kacheln erzeugt');
+  }
+  // The storage decides the host, derive the prefix from a real URL
+  return firstUrl.slice(0, -'/0/0_0.webp'.length);
+}
+
+async function runWithConcurrency<T>(items: T[], limit: number, task: (item: T) => Promise<void>): Promise<void> {
+  let next = 0;
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      await task(items[next++]);
+    }
+  });
+  await Promise.all(workers);
+}
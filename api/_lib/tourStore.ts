@@ -0,0 +1,188 @@
+/**
+ * Tour Store
+ * Persists tour documents as JSON in Vercel Blob Storage
+ *
+ * Layout: tours/{id}/tour.json (next to the panorama images in the same store)
+ */
+
+import { put, list, del } from '@vercel/blob';
+import type { Tour, TourSummary } from '../../src/types';
+
+const TOURS_PREFIX = 'tours/';
+
+// Check if Blob storage is configured
+export function isBlobConfigured(): boolean {
+  return !!process.env.BLOB_READ_WRITE_TOKEN;
+}
+
+// Generate unique ID
+export function generateTourId(): string {
+  return `tour_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+}
+
+/**
+ * Blob path prefix for everything belonging to a tour
+ */
+export function tourPrefix(tourId: string): string {
+  return `${TOURS_PREFIX}${tourId}/`;
+}
+
+function tourPath(tourId: string): string {
+  return `${tourPrefix(tourId)}tour.json`;
+}
+
+/**
+ * Tour IDs end up in blob paths, so only allow URL-safe characters
+ */
+export function isValidTourId(id: unknown): id is string {
+  return typeof id === 'string' && /^[a-zA-Z0-9_-]{1,100}$/.test(id);
+}
+
+/**
+ * '*' or an http(s) URL whose origin the embed bridge can use
+ */
+function isValidOrigin(value: unknown): boolean {
+  if (value === '*') return true;
+  if (typeof value !== 'string') return false;
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' || url.protocol === 'http:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validate an incoming tour document
+ * Returns an error message or null if the document is usable
+ */
+export function validateTour(data: unknown): string | null {
+  if (!data || typeof data !== 'object') {
+    return 'Tour muss ein JSON-Objekt sein';
+  }
+
+  const tour = data as Partial<Tour>;
+
+  if (tour.id !== undefined && !isValidTourId(tour.id)) {
+    return 'Ungültige Tour-ID';
+  }
+  if (typeof tour.name !== 'string' || !tour.name.trim()) {
+    return 'Tour benötigt einen Namen';
+  }
+  if (!Array.isArray(tour.panoramas)) {
+    return 'Tour benötigt eine Liste von Panoramen';
+  }
+  for (const panorama of tour.panoramas) {
+    if (!panorama || typeof panorama.id !== 'string' || !panorama.images?.high) {
+      return 'Jedes Panorama benötigt eine ID und ein Bild';
+    }
+    if (!Array.isArray(panorama.hotspots)) {
+      return `Panorama "${panorama.id}" hat keine Hotspot-Liste`;
+    }
+  }
+  if (tour.guidedTours !== undefined) {
+    if (!Array.isArray(tour.guidedTours)) {
+      return 'Geführte Touren müssen eine Liste sein';
+    }
+    for (const guidedTour of tour.guidedTours) {
+      if (!guidedTour || typeof guidedTour.id !== 'string' || !Array.isArray(guidedTour.steps)) {
+        return 'Jede geführte Tour benötigt eine ID und eine Liste von Schritten';
+      }
+    }
+  }
+  if (!tour.settings || typeof tour.settings !== 'object') {
+    return 'Tour benötigt Einstellungen';
+  }
+  const origins = tour.settings.embedAllowedOrigins;
+  if (origins !== undefined && (!Array.isArray(origins) || !origins.every(isValidOrigin))) {
+    return 'embedAllowedOrigins muss eine Liste von Origins sein (z.B. "https://kunde.de")';
+  }
+
+  return null;
+}
+
+/**
+ * Load a tour document, or null if it does not exist
+ */
+export async function readTour(tourId: string): Promise<Tour | null> {
+  const { blobs } = await list({ prefix: tourPath(tourId), limit: 1 });
+  const blob = blobs.find((b) => b.pathname === tourPath(tourId));
+  if (!blob) return null;
+
+  // Cache-bust with the upload time so a fresh PUT is visible immediately
+  const response = await fetch(`${blob.url}?v=${blob.uploadedAt.getTime()}`);
+  if (!response.ok) {
+    throw new Error(`Tour konnte nicht geladen werden (HTTP ${response.status})`);
+  }
+
+  return (await response.json()) as Tour;
+}
+
+/**
+ * Write a tour document, replacing any previous version
+ */
+export async function writeTour(tour: Tour): Promise<Tour> {
+  await put(tourPath(tour.id), JSON.stringify(tour, null, 2), {
+    access: 'public',
+    contentType: 'application/json',
+    addRandomSuffix: false,
+    cacheControlMaxAge: 60,
+  });
+
+  return tour;
+}
+
+/**
+ * Delete a tour document and every blob stored under its prefix
+ * Returns false if the tour did not exist
+ */
+export async function deleteTour(tourId: string): Promise<boolean> {
+  const urls: string[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const result = await list({ prefix: tourPrefix(tourId), cursor });
+    urls.push(...result.blobs.map((b) => b.url));
+    cursor = result.hasMore ? result.cursor : undefined;
+  } while (cursor);
+
+  if (urls.length === 0) return false;
+
+  await del(urls);
+  return true;
+}
+
+/**
+ * List summaries of all stored tours (newest first)
+ */
+export async function listTours(): Promise<TourSummary[]> {
+  const tourIds: string[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const result = await list({ prefix: TOURS_PREFIX, cursor });
+    for (const blob of result.blobs) {
+      // Path: tours/{id}/tour.json
+      const parts = blob.pathname.split('/');
+      if (parts.length === 3 && parts[2] === 'tour.json') {
+        tourIds.push(parts[1]);
+      }
+    }
+    cursor = result.hasMore ? result.cursor : undefined;
+  } while (cursor);
+
+  const tours = await Promise.all(tourIds.map((id) => readTour(id)));
+
+  return tours
+    .filter((tour): tour is Tour => tour !== null)
+    .map((tour) => ({
+      id: tour.id,
+      name: tour.name,
+      description: tour.description,
+      panoramaCount: tour.panoramas.length,
+      thumbnail: tour.panoramas[0]?.images.low,
+      createdAt: tour.createdAt,
+      updatedAt: tour.updatedAt,
+    }))
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
@@ -0,0 +1,34 @@
+/**
+ * Write Access
+ * Routes that create, replace or delete data require TOUR_WRITE_TOKEN,
+ * sent as `Authorization: Bearer <token>`. Tour IDs are public (share and
+ * embed links), so they must never be enough to change a tour.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createHash, timingSafeEqual } from 'node:crypto';
+
+function digest(value: string): Buffer {
+  // Same length for timingSafeEqual, whatever the input
+  return createHash('sha256').update(value).digest();
+}
+
+/**
+ * Check the write token; sends the error response and returns false if it is missing or wrong.
+ * Without a configured TOUR_WRITE_TOKEN every write is refused.
+ */
+export function requireWriteAccess(req: VercelRequest, res: VercelResponse): boolean {
+  const token = process.env.TOUR_WRITE_TOKEN;
+  if (!token) {
+    res.status(500).json({ success: false, error: 'TOUR_WRITE_TOKEN nicht konfiguriert' });
+    return false;
+  }
+
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? '');
+  if (!match || !timingSafeEqual(digest(match[1].trim()), digest(token))) {
+    res.status(401).json({ success: false, error: 'Schreibzugriff verweigert' });
+    return false;
+  }
+
+  return true;
+}
@@ -0,0 +1,197 @@
+/**
+ * Media Upload API Route
+ * POST /api/media - Store an image, video, audio clip or PDF for info hotspots
+ *
+ * Form fields: tourId, file (requires the write token, see _lib/writeAccess)
+ * Images are rotated by their EXIF orientation, scaled down to MAX_IMAGE_SIZE
+ * and stored as WebP; other files are stored as they are. The type is detected
+ * from the file content, not from the name. Everything ends up under the
+ * tour's blob prefix (tours/{id}/media/), so deleting the tour removes it.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { put } from '@vercel/blob';
+import sharp from 'sharp';
+import type { MediaKind, UploadedMedia } from '../src/types';
+import { getBoundary, parseMultipart, readBody } from './_lib/multipart';
+import { isBlobConfigured, isValidTourId, tourPrefix } from './_lib/tourStore';
+import { requireWriteAccess } from './_lib/writeAccess';
+
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: '100mb',
+    },
+  },
+};
+
+interface MediaResponse {
+  success: boolean;
+  media?: UploadedMedia;
+  error?: string;
+}
+
+/** Longest edge of stored images (popups and galleries never show more) */
+const MAX_IMAGE_SIZE = 2048;
+
+/** Decompression bomb guard for sharp */
+const MAX_IMAGE_PIXELS = 100_000_000;
+
+interface MediaType {
+  kind: MediaKind;
+  contentType: string;
+  extension: string;
+}
+
+/**
+ * ISO-BMFF brands stored as video; image brands (avif, heic, mif1, ...) go to sharp
+ */
+const VIDEO_BRANDS = new Set(['isom', 'iso2', 'mp41', 'mp42', 'avc1', 'M4V ', 'dash']);
+
+/**
+ * Detect non-image media from their magic bytes
+ */
+function detectMediaType(data: Buffer): MediaType | null {
+  const ascii = (start: number, end: number) => data.subarray(start, end).toString('latin1');
+
+  if (ascii(0, 5) === '%PDF-') {
+    return { kind: 'document', contentType: 'application/pdf', extension: 'pdf' };
+  }
+  if (ascii(4, 8) === 'ftyp') {
+    const brand = ascii(8, 12);
+    if (brand === 'M4A ') return { kind: 'audio', contentType: 'audio/mp4', extension: 'm4a' };
+    if (brand === 'qt  ') return { kind: 'video', contentType: 'video/quicktime', extension: 'mov' };
+    if (VIDEO_BRANDS.has(brand)) return { kind: 'video', contentType: 'video/mp4', extension: 'mp4' };
+  }
+  if (data.readUInt32BE(0) === 0x1a45dfa3) {
+    return { kind: 'video', contentType: 'video/webm', extension: 'webm' };
+  }
+  if (ascii(0, 4) === 'OggS') {
+    return { kind: 'audio', contentType: 'audio/ogg', extension: 'ogg' };
+  }
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WAVE') {
+    return { kind: 'audio', contentType: 'audio/wav', extension: 'wav' };
+  }
+  // ID3 tag or MPEG frame sync
+  if (ascii(0, 3) === 'ID3' || (data[0] === 0xff && (data[1] & 0xe0) === 0xe0)) {
+    return { kind: 'audio', contentType: 'audio/mpeg', extension: 'mp3' };
+  }
+
+  return null;
+}
+
+/**
+ * File name without extension, reduced to URL-safe characters
+ */
+function toBaseName(fileName: string): string {
+  const base = fileName
+    .replace(/\.[^.]*$/, '')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+  return base || 'media';
+}
+
+async function storeMedia(tourId: string, fileName: string, data: Buffer): Promise<UploadedMedia | null> {
+  const path = `${tourPrefix(tourId)}media/${toBaseName(fileName)}`;
+
+  // Video, audio and PDF by signature; everything else must decode as image
+  if (data.length >= 12) {
+    const type = detectMediaType(data);
+    if (type) {
+      const blob = await put(`${path}.${type.extension}`, data, {
+        access: 'public',
+        contentType: type.contentType,
+        addRandomSuffix: true,
+      });
+      return { kind: type.kind, url: blob.url, contentType: type.contentType };
+    }
+  }
+
+  let image: { data: Buffer; info: sharp.OutputInfo };
+  try {
+    image = await sharp(data, { limitInputPixels: MAX_IMAGE_PIXELS })
+      .rotate()
+      .resize(MAX_IMAGE_SIZE, MAX_IMAGE_SIZE, { fit: 'inside', withoutEnlargement: true })
+      .webp({ quality: 82 })
+      .toBuffer({ resolveWithObject: true });
+  } catch {
+    return null;
+  }
+
+  console.log(`Stored image: ${image.info.width}x${image.info.height} (${(image.data.length / 1024).toFixed(0)} KB)`);
+
+  const blob = await put(`${path}.webp`, image.data, {
+    access: 'public',
+    contentType: 'image/webp',
+    addRandomSuffix: true,
+  });
+  return {
+    kind: 'image',
+    url: blob.url,
+    contentType: 'image/webp',
+    width: image.info.width,
+    height: image.info.height,
+  };
+}
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  if (req.method !== 'POST') {
+    res.status(405).json({ success: false, error: 'Method not allowed' });
+    return;
+  }
+
+  if (!requireWriteAccess(req, res)) return;
+
+  if (!isBlobConfigured()) {
+    res.status(500).json({
+      success: false,
+      error: 'BLOB_READ_WRITE_TOKEN nicht konfiguriert',
+    });
+    return;
+  }
+
+  try {
+    const boundary = getBoundary(req.headers['content-type'] || '');
+    if (!boundary) {
+      res.status(400).json({ success: false, error: 'Content-Type muss multipart/form-data sein' });
+      return;
+    }
+
+    const { fields, file } = parseMultipart(await readBody(req), boundary);
+    if (!isValidTourId(fields.tourId)) {
+      res.status(400).json({ success: false, error: 'Ungültige Tour-ID' });
+      return;
+    }
+    if (!file || file.data.length === 0) {
+      res.status(400).json({ success: false, error: 'Keine Datei gefunden' });
+      return;
+    }
+
+    console.log(`Media upload for ${fields.tourId}: ${file.name} (${(file.data.length / 1024 / 1024).toFixed(2)} MB)`);
+
+    const media = await storeMedia(fields.tourId, file.name, file.data);
+    if (!media) {
+      res.status(415).json({
+        success: false,
+        error: 'Dateityp wird nicht unterstützt (Bilder, MP4/WebM/MOV, MP3/M4A/OGG/WAV oder PDF)',
+      });
+      return;
+    }
+
+    const response: MediaResponse = { success: true, media };
+    res.status(201).json(response);
+  } catch (error) {
+    console.error('Media upload error:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unbekannter Fehler',
+    });
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * Single Tour API Route
+ * GET    /api/tours/:id - Load a tour
+ * PUT    /api/tours/:id - Create or replace a tour
+ * DELETE /api/tours/:id - Delete a tour and its stored files
+ *
+ * PUT and DELETE require the write token (see _lib/writeAccess)
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import type { Tour } from '../../src/types';
+import {
+  deleteTour,
+  isBlobConfigured,
+  isValidTourId,
+  readTour,
+  validateTour,
+  writeTour,
+} from '../_lib/tourStore';
+import { requireWriteAccess } from '../_lib/writeAccess';
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  if (req.method !== 'GET' && req.method !== 'PUT' && req.method !== 'DELETE') {
+    res.status(405).json({ success: false, error: 'Method not allowed' });
+    return;
+  }
+
+  const id = req.query.id;
+  if (!isValidTourId(id)) {
+    res.status(400).json({ success: false, error: 'Ungültige Tour-ID' });
+    return;
+  }
+
+  if (req.method !== 'GET' && !requireWriteAccess(req, res)) return;
+
+  if (!isBlobConfigured()) {
+    res.status(500).json({
+      success: false,
+      error: 'BLOB_READ_WRITE_TOKEN nicht konfiguriert',
+    });
+    return;
+  }
+
+  try {
+    if (req.method === 'GET') {
+      const tour = await readTour(id);
+      if (!tour) {
+        res.status(404).json({ success: false, error: 'Tour nicht gefunden' });
+        return;
+      }
+      res.status(200).json({ success: true, tour });
+      return;
+    }
+
+    if (req.method === 'DELETE') {
+      const deleted = await deleteTour(id);
+      if (!deleted) {
+        res.status(404).json({ success: false, error: 'Tour nicht gefunden' });
+        return;
+      }
+      res.status(200).json({ success: true });
+      return;
+    }
+
+    // PUT
+    const validationError = validateTour(req.body);
+    if (validationError) {
+      res.status(400).json({ success: false, error: validationError });
+      return;
+    }
+
+    const input = req.body as Tour;
+    if (input.id && input.id !== id) {
+      res.status(400).json({ success: false, error: 'Tour-ID stimmt nicht mit der URL überein' });
+      return;
+    }
+
+    const existing = await readTour(id);
+    const now = new Date().toISOString();
+    const tour = await writeTour({
+      ...input,
+      id,
+      createdAt: existing?.createdAt || input.createdAt || now,
+      updatedAt: now,
+    });
+
+    res.status(existing ? 200 : 201).json({ success: true, tour });
+  } catch (error) {
+    console.error('Tour API error:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unbekannter Fehler',
+    });
+  }
+}
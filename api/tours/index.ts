@@ -0,0 +1,75 @@
+/**
+ * Tours API Route
+ * GET  /api/tours - List all tours
+ * POST /api/tours - Create a new tour (requires the write token)
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import type { Tour } from '../../src/types';
+import {
+  generateTourId,
+  isBlobConfigured,
+  listTours,
+  readTour,
+  validateTour,
+  writeTour,
+} from '../_lib/tourStore';
+import { requireWriteAccess } from '../_lib/writeAccess';
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    res.status(405).json({ success: false, error: 'Method not allowed' });
+    return;
+  }
+
+  if (req.method === 'POST' && !requireWriteAccess(req, res)) return;
+
+  if (!isBlobConfigured()) {
+    res.status(500).json({
+      success: false,
+      error: 'BLOB_READ_WRITE_TOKEN nicht konfiguriert',
+    });
+    return;
+  }
+
+  try {
+    if (req.method === 'GET') {
+      const tours = await listTours();
+      res.status(200).json({ success: true, count: tours.length, tours });
+      return;
+    }
+
+    const validationError = validateTour(req.body);
+    if (validationError) {
+      res.status(400).json({ success: false, error: validationError });
+      return;
+    }
+
+    const input = req.body as Tour;
+    const id = input.id || generateTourId();
+
+    if (await readTour(id)) {
+      res.status(409).json({ success: false, error: `Tour "${id}" existiert bereits` });
+      return;
+    }
+
+    const now = new Date().toISOString();
+    const tour = await writeTour({
+      ...input,
+      id,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    res.status(201).json({ success: true, tour });
+  } catch (error) {
+    console.error('Tours API error:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unbekannter Fehler',
+    });
+  }
+}
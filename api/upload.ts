@@ -6,14 +6,35 @@
  * Conversion: DNG → WebP (multiple resolutions)
  * 
  * DNG Strategy:
- * 1. Try to extract embedded JPEG preview (most cameras embed one)
- * 2. For Insta360: DNGs often contain full-res JPEG preview
- * 3. Fallback: Use dcraw for RAW decoding (if available)
+ * 1. Decode the RAW data with dcraw into a 16-bit intermediate
+ *    (white balance, exposure and highlight options from the form fields)
+ * 2. Fallback: use the largest embedded JPEG preview
+ * The container is parsed first (see _lib/dngReader), so broken or
+ * non-panoramic files are rejected before the expensive decode.
+ *
+ * EXIF / GPano metadata (capture date, GPS, heading, partial-pano crop)
+ * is returned with the result, see _lib/imageMetadata.
+ * Partial panoramas (not 2:1) keep their size; their position in the sphere
+ * is returned as crop metadata, see _lib/panoramaGeometry.
+ * Full spheres larger than the high rendition are additionally cut into
+ * a tile pyramid for deep zoom (Blob storage only), see _lib/tiles.
  */
 
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { put } from '@vercel/blob';
 import sharp from 'sharp';
+import { decodeRaw, parseRawOptions, type RawDevelopOptions } from './_lib/rawDecoder';
+import { DngFormatError, getLargestPreview, orientationToRotation, readDngInfo } from './_lib/dngReader';
+import { TiffFormatError } from './_lib/tiff';
+import { readImageMetadata, type PanoramaMetadata } from './_lib/imageMetadata';
+import {
+  PanoramaGeometryError,
+  getCoverage,
+  parseHorizontalFov,
+  resolvePanoramaGeometry,
+} from './_lib/panoramaGeometry';
+import { generateTiles, planTileLevels, type PanoramaTiles } from './_lib/tiles';
+import { getBoundary, parseMultipart, readBody } from './_lib/multipart';
 
 // Configure body parser for large files
 export const config = {
@@ -31,7 +52,9 @@ interface UploadResult {
     high: string;
     medium: string;
     low: string;
+    tiles?: PanoramaTiles;
   };
+  metadata?: PanoramaMetadata;
   error?: string;
   warning?: string;
 }
@@ -46,127 +69,63 @@ function isBlobConfigured(): boolean {
   return !!process.env.BLOB_READ_WRITE_TOKEN;
 }
 
-/**
- * Extract embedded JPEG from DNG/RAW file
- * Most cameras (including Insta360) embed a full-resolution JPEG preview
- */
-function extractEmbeddedJpeg(buffer: Buffer): Buffer | null {
-  // JPEG magic bytes: FFD8FF
-  const jpegStart = buffer.indexOf(Buffer.from([0xFF, 0xD8, 0xFF]));
-  if (jpegStart === -1) return null;
-
-  // Find JPEG end marker: FFD9
-  let jpegEnd = -1;
-  for (let i = jpegStart + 3; i < buffer.length - 1; i++) {
-    if (buffer[i] === 0xFF && buffer[i + 1] === 0xD9) {
-      jpegEnd = i + 2;
-      // Don't break - find the LAST FFD9 (the largest embedded JPEG)
-    }
-  }
-
-  if (jpegEnd === -1) return null;
-
-  // Extract JPEG data
-  const jpegBuffer = buffer.slice(jpegStart, jpegEnd);
-  
-  // Validate minimum size (at least 100KB for a reasonable preview)
-  if (jpegBuffer.length < 100 * 1024) {
-    // Try to find a larger embedded JPEG (some DNGs have multiple)
-    const secondJpegStart = buffer.indexOf(Buffer.from([0xFF, 0xD8, 0xFF]), jpegStart + 1);
-    if (secondJpegStart !== -1 && secondJpegStart < buffer.length - 1000) {
-      // Find end of this second JPEG
-      let secondEnd = -1;
-      for (let i = secondJpegStart + 3; i < buffer.length - 1; i++) {
-        if (buffer[i] === 0xFF && buffer[i + 1] === 0xD9) {
-          secondEnd = i + 2;
-        }
-      }
-      if (secondEnd !== -1) {
-        const secondJpeg = buffer.slice(secondJpegStart, secondEnd);
-        if (secondJpeg.length > jpegBuffer.length) {
-          return secondJpeg;
-        }
-      }
-    }
-  }
-
-  return jpegBuffer;
-}
-
-/**
- * Find the largest embedded JPEG in a DNG file
- * Insta360 DNGs typically embed a high-resolution equirectangular JPEG
- */
-function findLargestEmbeddedJpeg(buffer: Buffer): Buffer | null {
-  const jpegs: Buffer[] = [];
-  let searchStart = 0;
-
-  // Find all embedded JPEGs
-  while (searchStart < buffer.length) {
-    const jpegStart = buffer.indexOf(Buffer.from([0xFF, 0xD8, 0xFF]), searchStart);
-    if (jpegStart === -1) break;
-
-    // Find the end of this JPEG
-    let jpegEnd = -1;
-    for (let i = jpegStart + 3; i < buffer.length - 1; i++) {
-      if (buffer[i] === 0xFF && buffer[i + 1] === 0xD9) {
-        jpegEnd = i + 2;
-        break;
-      }
-    }
-
-    if (jpegEnd !== -1 && jpegEnd > jpegStart) {
-      const jpeg = buffer.slice(jpegStart, jpegEnd);
-      if (jpeg.length > 50 * 1024) { // At least 50KB
-        jpegs.push(jpeg);
-      }
-      searchStart = jpegEnd;
-    } else {
-      searchStart = jpegStart + 1;
-    }
-  }
-
-  if (jpegs.length === 0) return null;
-
-  // Return the largest JPEG found
-  return jpegs.reduce((largest, current) => 
-    current.length > largest.length ? current : largest
-  );
-}
+/** Smallest embedded preview accepted as fallback (full panoramas need detail) */
+const MIN_PREVIEW_WIDTH = 2048;
 
 // Process and convert image to multiple resolutions
 async function processImage(
   buffer: Buffer,
   panoramaId: string,
-  originalName: string
-): Promise<{ high: string; medium: string; low: string; warning?: string }> {
+  originalName: string,
+  rawOptions: RawDevelopOptions,
+  horizontalFov: number | undefined
+): Promise<{ high: string; medium: string; low: string; tiles?: PanoramaTiles; metadata: PanoramaMetadata; warning?: string }> {
   const isDng = originalName.toLowerCase().endsWith('.dng');
+
+  // Read from the original file, the developed image carries no metadata
+  const panoramaMetadata = await readImageMetadata(buffer, isDng);
   
-  let imageBuffer = buffer;
+  // Each rendition starts a fresh sharp pipeline from the same source
+  let createImage = () => sharp(buffer);
   let warning: string | undefined;
   
-  // For DNG files, extract the embedded JPEG
+  // For DNG files, develop the RAW data
   if (isDng) {
     console.log(`Processing DNG file: ${originalName} (${(buffer.length / 1024 / 1024).toFixed(2)} MB)`);
-    
-    const embeddedJpeg = findLargestEmbeddedJpeg(buffer);
-    
-    if (embeddedJpeg && embeddedJpeg.length > 500 * 1024) {
-      // Found a substantial embedded JPEG (>500KB)
-      console.log(`Found embedded JPEG: ${(embeddedJpeg.length / 1024 / 1024).toFixed(2)} MB`);
-      imageBuffer = embeddedJpeg;
-      warning = 'DNG wurde über eingebettetes JPEG-Preview verarbeitet. Für volle RAW-Qualität bitte das exportierte JPEG/TIFF hochladen.';
-    } else {
-      throw new Error(
-        'Kein eingebettetes JPEG im DNG gefunden. ' +
-        'Bitte exportiere das Panorama aus der Insta360-App als JPEG oder TIFF und lade diese Datei hoch.'
-      );
+
+    const dng = readDngInfo(buffer);
+    const rotation = orientationToRotation(dng.orientation);
+    const [width, height] = rotation % 180 === 0 ? [dng.width, dng.height] : [dng.height, dng.width];
+    console.log(`DNG ${dng.dngVersion}: ${[dng.make, dng.model].filter(Boolean).join(' ') || 'unbekannte Kamera'}, ${width}x${height}, ${dng.previews.length} preview(s)`);
+
+    if (width < height) {
+      throw new DngFormatError(`Bild ist im Hochformat (${width}x${height}) und kein Panorama`);
+    }
+
+    try {
+      const raw = await decodeRaw(buffer, rawOptions);
+      console.log(`Decoded RAW: ${raw.width}x${raw.height} (16-bit, WB ${rawOptions.whiteBalance}, ${rawOptions.exposure} EV)`);
+      createImage = () => sharp(raw.data, {
+        raw: { width: raw.width, height: raw.height, channels: raw.channels },
+      });
+    } catch (error) {
+      console.warn('RAW decoding failed, falling back to embedded preview:', error);
+
+      const preview = getLargestPreview(dng);
+      if (!preview || (preview.width ?? 0) < MIN_PREVIEW_WIDTH) {
+        throw new Error('DNG konnte nicht dekodiert werden und enthält kein ausreichend großes JPEG-Preview.');
+      }
+
+      console.log(`Using embedded preview: ${preview.width}x${preview.height} (${(preview.length / 1024 / 1024).toFixed(2)} MB)`);
+      const jpeg = buffer.subarray(preview.offset, preview.offset + preview.length);
+      // Previews are stored unrotated, like the raw data
+      createImage = () => sharp(jpeg).rotate(rotation);
+      warning = 'RAW-Dekodierung fehlgeschlagen, das DNG wurde über das eingebettete JPEG-Preview verarbeitet. Weißabgleich und Belichtung wurden nicht angewendet.';
     }
   }
 
   // Load image with sharp
-  const image = sharp(imageBuffer);
-  const metadata = await image.metadata();
+  const metadata = await createImage().metadata();
   
   if (!metadata.width || !metadata.height) {
     throw new Error('Ungültiges Bildformat');
@@ -174,12 +133,15 @@ async function processImage(
 
   console.log(`Image dimensions: ${metadata.width}x${metadata.height}`);
 
-  // Calculate aspect ratio (should be 2:1 for equirectangular)
-  const aspectRatio = metadata.width / metadata.height;
-  if (aspectRatio < 1.8 || aspectRatio > 2.2) {
-    console.warn(`Warning: Aspect ratio ${aspectRatio.toFixed(2)} is not 2:1. Image may not display correctly as 360° panorama.`);
-    if (!warning) {
-      warning = `Seitenverhältnis ist ${aspectRatio.toFixed(2)}:1 statt 2:1. Das Bild wird möglicherweise nicht korrekt als 360°-Panorama angezeigt.`;
+  // Full spheres are 2:1, anything else is placed in the sphere via crop metadata
+  const geometry = resolvePanoramaGeometry(metadata.width, metadata.height, horizontalFov, panoramaMetadata.crop);
+  panoramaMetadata.crop = geometry.crop;
+  if (geometry.crop) {
+    const { crop } = geometry;
+    const coverage = getCoverage(crop);
+    console.log(`Partial panorama: ${crop.croppedWidth}x${crop.croppedHeight} of ${crop.fullWidth}x${crop.fullHeight} at ${crop.croppedX},${crop.croppedY}${geometry.inferred ? ' (inferred)' : ''}`);
+    if (geometry.inferred && !warning) {
+      warning = `Teilpanorama erkannt, angenommen werden ${Math.round(coverage.horizontal)}° × ${Math.round(coverage.vertical)}°. Falls das nicht stimmt, den horizontalen Bildwinkel beim Upload angeben.`;
     }
   }
 
@@ -205,7 +167,7 @@ async function processImage(
   console.log(`Using Blob storage: ${useBlob}`);
 
   for (const [key, size] of Object.entries(resolutions)) {
-    const resizedBuffer = await sharp(imageBuffer)
+    const resizedBuffer = await createImage()
       .resize(size.width, size.height, {
         fit: 'inside', // Maintain aspect ratio
         withoutEnlargement: true,
@@ -233,7 +195,28 @@ async function processImage(
     }
   }
 
-  return { ...urls, warning };
+  // Tiles only pay off above the high rendition; partial panoramas are not supported by the tile adapter
+  let tiles: PanoramaTiles | undefined;
+  const tileLevels = panoramaMetadata.crop ? [] : planTileLevels(metadata.width, maxWidth);
+  if (useBlob && tileLevels.length > 0) {
+    try {
+      const baseUrl = await generateTiles(createImage, tileLevels, `panoramas/${panoramaId}/tiles`, async (path, data) => {
+        // Tile URLs are built by the viewer, so they must be predictable
+        const blob = await put(path, data, { access: 'public', contentType: 'image/webp', addRandomSuffix: false });
+        return blob.url;
+      });
+      tiles = { baseUrl, levels: tileLevels };
+    } catch (error) {
+      console.warn('Tile generation failed, continuing without tiles:', error);
+      if (!warning) {
+        warning = 'Die Kacheln für die Detailansicht konnten nicht erzeugt werden. Das Panorama wird in 4K angezeigt.';
+      }
+    }
+  } else if (tileLevels.length > 0) {
+    console.log('Skipping tiles: Blob storage is not configured');
+  }
+
+  return { ...urls, tiles, metadata: panoramaMetadata, warning };
 }
 
 export default async function handler(
@@ -251,9 +234,8 @@ export default async function handler(
     // This is fine for testing but not recommended for production with large files
     
     // Parse multipart form data
-    const contentType = req.headers['content-type'] || '';
-    
-    if (!contentType.includes('multipart/form-data')) {
+    const boundary = getBoundary(req.headers['content-type'] || '');
+    if (!boundary) {
       res.status(400).json({
         success: false,
         error: 'Content-Type muss multipart/form-data sein',
@@ -261,64 +243,35 @@ export default async function handler(
       return;
     }
 
-    // Get the raw body as buffer
-    const chunks: Buffer[] = [];
-    for await (const chunk of req) {
-      chunks.push(Buffer.from(chunk));
-    }
-    const body = Buffer.concat(chunks);
-
+    const body = await readBody(req);
     console.log(`Received upload: ${(body.length / 1024 / 1024).toFixed(2)} MB`);
 
-    // Extract file from multipart (simplified parsing)
-    const boundary = contentType.split('boundary=')[1];
-    if (!boundary) {
-      res.status(400).json({ success: false, error: 'Invalid multipart boundary' });
+    const { fields, file } = parseMultipart(body, boundary);
+    if (!file || file.data.length === 0) {
+      res.status(400).json({ success: false, error: 'Keine Datei gefunden' });
       return;
     }
 
-    // Find file data in multipart body
-    const boundaryBuffer = Buffer.from(`--${boundary}`);
-    const parts = splitBuffer(body, boundaryBuffer);
-    
-    let fileBuffer: Buffer | null = null;
-    let fileName = 'upload.jpg';
-
-    for (const part of parts) {
-      const headerEnd = part.indexOf(Buffer.from('\r\n\r\n'));
-      if (headerEnd === -1) continue;
-      
-      const headerStr = part.slice(0, headerEnd).toString();
-      
-      if (headerStr.includes('Content-Disposition') && headerStr.includes('filename=')) {
-        // Extract filename
-        const fileNameMatch = headerStr.match(/filename="([^"]+)"/);
-        if (fileNameMatch) {
-          fileName = fileNameMatch[1];
-        }
-        
-        // Get file content (skip headers and trailing CRLF)
-        fileBuffer = part.slice(headerEnd + 4);
-        // Remove trailing \r\n--
-        if (fileBuffer.length > 2 && fileBuffer[fileBuffer.length - 2] === 13 && fileBuffer[fileBuffer.length - 1] === 10) {
-          fileBuffer = fileBuffer.slice(0, -2);
-        }
-        break;
-      }
-    }
+    const fileBuffer = file.data;
+    const fileName = file.name || 'upload.jpg';
 
-    if (!fileBuffer || fileBuffer.length === 0) {
-      res.status(400).json({ success: false, error: 'Keine Datei gefunden' });
+    console.log(`Processing file: ${fileName} (${(fileBuffer.length / 1024 / 1024).toFixed(2)} MB)`);
+
+    let rawOptions: RawDevelopOptions;
+    let horizontalFov: number | undefined;
+    try {
+      rawOptions = parseRawOptions(fields);
+      horizontalFov = parseHorizontalFov(fields);
+    } catch (error) {
+      res.status(400).json({ success: false, error: error instanceof Error ? error.message : 'Unbekannter Fehler' });
       return;
     }
 
-    console.log(`Processing file: ${fileName} (${(fileBuffer.length / 1024 / 1024).toFixed(2)} MB)`);
-
     // Generate panorama ID
     const panoramaId = generateId();
 
     // Process and upload images
-    const result = await processImage(fileBuffer, panoramaId, fileName);
+    const result = await processImage(fileBuffer, panoramaId, fileName, rawOptions, horizontalFov);
 
     const response: UploadResult = {
       success: true,
@@ -327,37 +280,20 @@ export default async function handler(
         high: result.high,
         medium: result.medium,
         low: result.low,
+        tiles: result.tiles,
       },
+      metadata: result.metadata,
       warning: result.warning,
     };
 
     res.status(200).json(response);
   } catch (error) {
     console.error('Upload error:', error);
-    res.status(500).json({
+    // Unreadable files are a client problem, not a server error
+    const isUnprocessable = error instanceof TiffFormatError || error instanceof PanoramaGeometryError;
+    res.status(isUnprocessable ? 422 : 500).json({
       success: false,
       error: error instanceof Error ? error.message : 'Unbekannter Fehler',
     });
   }
 }
-
-// Helper: Split buffer by delimiter
-function splitBuffer(buffer: Buffer, delimiter: Buffer): Buffer[] {
-  const parts: Buffer[] = [];
-  let start = 0;
-  let index = buffer.indexOf(delimiter, start);
-  
-  while (index !== -1) {
-    if (index > start) {
-      parts.push(buffer.slice(start, index));
-    }
-    start = index + delimiter.length;
-    index = buffer.indexOf(delimiter, start);
-  }
-  
-  if (start < buffer.length) {
-    parts.push(buffer.slice(start));
-  }
-  
-  return parts;
-}
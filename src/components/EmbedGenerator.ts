@@ -2,6 +2,10 @@
  * EmbedGenerator - Generates embed code and fullscreen links for tours
  */
 
+import type { ViewState } from '../types';
+import { serializeViewState } from '../utils/viewState';
+import { escapeHtml } from '../utils/html';
+
 export interface EmbedOptions {
   tourId: string;
   baseUrl?: string;
@@ -9,6 +13,8 @@ export interface EmbedOptions {
   height?: string;
   autoplay?: boolean;
   showControls?: boolean;
+  /** Start at this panorama and camera position */
+  view?: ViewState;
 }
 
 export class EmbedGenerator {
@@ -54,7 +60,8 @@ export class EmbedGenerator {
     }
 
     const queryString = params.toString();
-    return `${this.baseUrl}/embed${queryString ? `?${queryString}` : ''}`;
+    const hash = options.view ? `#${serializeViewState(options.view)}` : '';
+    return `${this.baseUrl}/embed${queryString ? `?${queryString}` : ''}${hash}`;
   }
 
   /**
@@ -71,6 +78,13 @@ export class EmbedGenerator {
     return `${this.baseUrl}/?tour=${tourId}`;
   }
 
+  /**
+   * Generate link to a specific panorama and camera position
+   */
+  generateViewUrl(tourId: string, view: ViewState): string {
+    return `${this.generateShareUrl(tourId)}#${serializeViewState(view)}`;
+  }
+
   /**
    * Copy text to clipboard
    */
@@ -96,7 +110,7 @@ export class EmbedGenerator {
 /**
  * Create and show embed modal
  */
-export function showEmbedModal(tourId: string, tourName?: string): void {
+export function showEmbedModal(tourId: string, tourName?: string, view?: ViewState): void {
   const generator = new EmbedGenerator();
 
   // Create modal
@@ -114,7 +128,7 @@ export function showEmbedModal(tourId: string, tourName?: string): void {
         </button>
       </div>
       <div class="embed-modal-content">
-        <p class="embed-tour-name">${tourName || tourId}</p>
+        <p class="embed-tour-name">${escapeHtml(tourName || tourId)}</p>
         
         <div class="embed-section">
           <h3>Embed-Code</h3>
@@ -156,6 +170,21 @@ export function showEmbedModal(tourId: string, tourName?: string): void {
           </div>
         </div>
 
+        ${view ? `
+        <div class="embed-section">
+          <h3>Link zu dieser Ansicht</h3>
+          <div class="embed-link-box">
+            <input type="text" readonly id="viewLink" value="${escapeHtml(generator.generateViewUrl(tourId, view))}" />
+            <button class="embed-link-copy" id="copyViewLink">
+              <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+                <rect x="9" y="9" width="13" height="13" rx="2" ry="2"/>
+                <path d="M5 15H4a2 2 0 0 1-2-2V4a2 2 0 0 1 2-2h9a2 2 0 0 1 2 2v1"/>
+              </svg>
+            </button>
+          </div>
+        </div>
+        ` : ''}
+
         <div class="embed-options">
           <h3>Optionen</h3>
           <label class="embed-checkbox">
@@ -166,6 +195,12 @@ export function showEmbedModal(tourId: string, tourName?: string): void {
             <input type="checkbox" id="optHideControls" />
             <span>Controls ausblenden</span>
           </label>
+          ${view ? `
+          <label class="embed-checkbox">
+            <input type="checkbox" id="optStartView" />
+            <span>Mit aktueller Ansicht starten</span>
+          </label>
+          ` : ''}
         </div>
       </div>
     </div>
@@ -200,10 +235,17 @@ export function showEmbedModal(tourId: string, tourName?: string): void {
     showCopyFeedback(modal.querySelector('#copyFullscreen') as HTMLElement, success);
   });
 
+  modal.querySelector('#copyViewLink')?.addEventListener('click', async () => {
+    const link = (modal.querySelector('#viewLink') as HTMLInputElement)?.value || '';
+    const success = await generator.copyToClipboard(link);
+    showCopyFeedback(modal.querySelector('#copyViewLink') as HTMLElement, success);
+  });
+
   // Options update
   const updateEmbed = () => {
     const autoplay = (modal.querySelector('#optAutoplay') as HTMLInputElement)?.checked;
     const hideControls = (modal.querySelector('#optHideControls') as HTMLInputElement)?.checked;
+    const startView = (modal.querySelector('#optStartView') as HTMLInputElement | null)?.checked;
 
     const embedCode = modal.querySelector('#embedCode');
     if (embedCode) {
@@ -211,12 +253,14 @@ export function showEmbedModal(tourId: string, tourName?: string): void {
         tourId,
         autoplay,
         showControls: !hideControls,
+        view: startView ? view : undefined,
       });
     }
   };
 
   modal.querySelector('#optAutoplay')?.addEventListener('change', updateEmbed);
   modal.querySelector('#optHideControls')?.addEventListener('change', updateEmbed);
+  modal.querySelector('#optStartView')?.addEventListener('change', updateEmbed);
 
   // Escape key
   const escHandler = (e: KeyboardEvent) => {
@@ -228,12 +272,6 @@ export function showEmbedModal(tourId: string, tourName?: string): void {
   document.addEventListener('keydown', escHandler);
 }
 
-function escapeHtml(text: string): string {
-  const div = document.createElement('div');
-  div.textContent = text;
-  return div.innerHTML;
-}
-
 function showCopyFeedback(button: HTMLElement, success: boolean): void {
   const originalHtml = button.innerHTML;
   button.innerHTML = success 
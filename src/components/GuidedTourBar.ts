@@ -0,0 +1,152 @@
+/**
+ * GuidedTourBar - playback controls and captions for guided tours
+ * Play/pause, step buttons and a scrubber, plus the caption of the current step
+ */
+
+import type { GuidedTour } from '../types';
+import type { TourViewer } from '../viewer/TourViewer';
+import { GuidedTourPlayer, type GuidedTourPlayerState } from '../viewer/GuidedTourPlayer';
+import { escapeHtml } from '../utils/html';
+
+export interface GuidedTourBarOptions {
+  viewer: TourViewer;
+  /** Tours to choose from (a select is shown for more than one) */
+  guidedTours: GuidedTour[];
+  container?: HTMLElement | string;
+  onClose?: () => void;
+}
+
+export class GuidedTourBar {
+  private viewer: TourViewer;
+  private options: GuidedTourBarOptions;
+  private element: HTMLElement;
+  private player: GuidedTourPlayer | null = null;
+
+  constructor(options: GuidedTourBarOptions) {
+    this.options = options;
+    this.viewer = options.viewer;
+
+    const container = typeof options.container === 'string'
+      ? document.querySelector<HTMLElement>(options.container)
+      : options.container ?? document.getElementById('app');
+    if (!container) throw new Error('Container for the guided tour bar not found');
+
+    this.element = document.createElement('div');
+    this.element.className = 'guided-tour-bar';
+    this.element.innerHTML = this.renderTemplate();
+    container.appendChild(this.element);
+
+    this.element.addEventListener('click', this.clickHandler);
+    this.element.addEventListener('input', this.inputHandler);
+    this.element.addEventListener('change', this.changeHandler);
+  }
+
+  /**
+   * Start playing a guided tour (the first one by default)
+   */
+  play(guidedTourId = this.options.guidedTours[0]?.id): void {
+    const guidedTour = this.options.guidedTours.find((t) => t.id === guidedTourId);
+    if (!guidedTour) return;
+
+    this.player?.destroy();
+    this.player = new GuidedTourPlayer({
+      viewer: this.viewer,
+      guidedTour,
+      onChange: (state) => this.update(state),
+    });
+
+    const select = this.element.querySelector<HTMLSelectElement>('.guided-tour-select');
+    if (select) select.value = guidedTour.id;
+
+    this.update(this.player.getState());
+    this.player.play();
+  }
+
+  destroy(): void {
+    this.player?.destroy();
+    this.player = null;
+    this.element.remove();
+  }
+
+  private renderTemplate(): string {
+    const tours = this.options.guidedTours;
+
+    return `
+      <p class="guided-tour-caption" aria-live="polite"></p>
+      <div class="guided-tour-controls">
+        ${tours.length > 1 ? `
+          <select class="guided-tour-select" aria-label="Geführte Tour">
+            ${tours.map((t) => `<option value="${escapeHtml(t.id)}">${escapeHtml(t.name)}</option>`).join('')}
+          </select>
+        ` : `<span class="guided-tour-name">${escapeHtml(tours[0]?.name ?? '')}</span>`}
+        <button type="button" data-action="previous" title="Vorheriger Schritt">⏮</button>
+        <button type="button" data-action="toggle" class="guided-tour-toggle" title="Abspielen">▶</button>
+        <button type="button" data-action="next" title="Nächster Schritt">⏭</button>
+        <input type="range" class="guided-tour-scrubber" min="0" max="0" step="1" value="0" aria-label="Schritt" />
+        <span class="guided-tour-progress"></span>
+        <button type="button" data-action="close" title="Geführte Tour beenden">✕</button>
+      </div>
+    `;
+  }
+
+  private update(state: GuidedTourPlayerState): void {
+    const caption = this.element.querySelector<HTMLElement>('.guided-tour-caption');
+    if (caption) {
+      caption.textContent = state.step?.caption ?? '';
+      caption.hidden = !state.step?.caption;
+    }
+
+    const toggle = this.element.querySelector<HTMLButtonElement>('.guided-tour-toggle');
+    if (toggle) {
+      const isPlaying = state.status === 'playing';
+      toggle.textContent = isPlaying ? '⏸' : '▶';
+      toggle.title = isPlaying ? 'Pause' : state.status === 'ended' ? 'Erneut abspielen' : 'Abspielen';
+    }
+
+    const scrubber = this.element.querySelector<HTMLInputElement>('.guided-tour-scrubber');
+    if (scrubber) {
+      scrubber.max = String(Math.max(0, state.stepCount - 1));
+      scrubber.value = String(state.stepIndex);
+      scrubber.disabled = state.stepCount < 2;
+    }
+
+    const progress = this.element.querySelector<HTMLElement>('.guided-tour-progress');
+    if (progress) {
+      progress.textContent = state.stepCount > 0 ? `${state.stepIndex + 1} / ${state.stepCount}` : 'Keine Schritte';
+    }
+  }
+
+  private clickHandler = (e: MouseEvent) => {
+    const action = (e.target as HTMLElement).closest<HTMLElement>('[data-action]')?.dataset.action;
+
+    switch (action) {
+      case 'toggle':
+        this.player?.togglePlayback();
+        break;
+      case 'previous':
+        this.player?.previous();
+        break;
+      case 'next':
+        this.player?.next();
+        break;
+      case 'close':
+        this.destroy();
+        this.options.onClose?.();
+        break;
+    }
+  };
+
+  private inputHandler = (e: Event) => {
+    const target = e.target as HTMLInputElement;
+    if (target.classList.contains('guided-tour-scrubber')) {
+      this.player?.seek(Number(target.value));
+    }
+  };
+
+  private changeHandler = (e: Event) => {
+    const target = e.target as HTMLSelectElement;
+    if (target.classList.contains('guided-tour-select')) {
+      this.play(target.value);
+    }
+  };
+}
@@ -3,6 +3,9 @@
  * Handles large file uploads with progress indication
  */
 
+import type { PanoramaMetadata, PanoramaTiles } from '../types';
+import { escapeHtml } from '../utils/html';
+
 export interface UploadResult {
   success: boolean;
   panoramaId?: string;
@@ -10,11 +13,24 @@ export interface UploadResult {
     high: string;
     medium: string;
     low: string;
+    tiles?: PanoramaTiles;
   };
+  /** Capture date, GPS, heading and partial-pano crop from the file */
+  metadata?: PanoramaMetadata;
   error?: string;
   warning?: string;
 }
 
+/**
+ * RAW develop settings, sent as form fields (only used for DNG files)
+ */
+export interface RawDevelopSettings {
+  whiteBalance: 'camera' | 'auto' | 'daylight';
+  /** Exposure correction in EV (-3 to +3) */
+  exposure: number;
+  highlights: 'clip' | 'recover';
+}
+
 export interface UploadPanelOptions {
   container: HTMLElement | string;
   onUploadStart?: (file: File) => void;
@@ -71,6 +87,42 @@ export class UploadPanel {
           <input type="file" id="fileInput" accept=".dng,.DNG,.jpg,.jpeg,.webp,.png" hidden />
         </div>
 
+        <details class="raw-options" id="rawOptions">
+          <summary>RAW-Entwicklung (DNG)</summary>
+          <div class="raw-options-grid">
+            <label for="rawWhiteBalance">Weißabgleich</label>
+            <select id="rawWhiteBalance" name="whiteBalance">
+              <option value="camera">Kamera</option>
+              <option value="auto">Automatisch</option>
+              <option value="daylight">Tageslicht</option>
+            </select>
+
+            <label for="rawExposure">Belichtung <span id="rawExposureValue">0 EV</span></label>
+            <input type="range" id="rawExposure" name="exposure" min="-3" max="3" step="0.1" value="0" />
+
+            <label for="rawHighlights">Lichter</label>
+            <select id="rawHighlights" name="highlights">
+              <option value="recover">Wiederherstellen</option>
+              <option value="clip">Abschneiden</option>
+            </select>
+          </div>
+        </details>
+
+        <details class="raw-options" id="panoramaOptions">
+          <summary>Panorama-Format</summary>
+          <div class="raw-options-grid">
+            <label for="horizontalFov">Horizontaler Bildwinkel</label>
+            <select id="horizontalFov" name="horizontalFov">
+              <option value="">Automatisch</option>
+              <option value="360">360°</option>
+              <option value="270">270°</option>
+              <option value="180">180°</option>
+              <option value="120">120°</option>
+              <option value="90">90°</option>
+            </select>
+          </div>
+        </details>
+
         <div class="upload-progress hidden" id="uploadProgress">
           <div class="progress-info">
             <span class="file-name" id="fileName">-</span>
@@ -123,6 +175,14 @@ export class UploadPanel {
     const retryBtn = this.container.querySelector('#retryBtn');
     const viewBtn = this.container.querySelector('#viewPanoramaBtn');
 
+    // Exposure label
+    const exposureInput = this.container.querySelector('#rawExposure') as HTMLInputElement | null;
+    exposureInput?.addEventListener('input', () => {
+      const label = this.container.querySelector('#rawExposureValue');
+      const value = Number(exposureInput.value);
+      if (label) label.textContent = `${value > 0 ? '+' : ''}${value} EV`;
+    });
+
     // Click to select file
     selectBtn?.addEventListener('click', () => {
       this.fileInput?.click();
@@ -169,6 +229,8 @@ export class UploadPanel {
   }
 
   private async handleFile(file: File): Promise<void> {
+    if (this.isUploading) return;
+
     // Validate file
     const validExtensions = ['.dng', '.jpg', '.jpeg', '.webp', '.png'];
     const ext = '.' + file.name.split('.').pop()?.toLowerCase();
@@ -208,6 +270,13 @@ export class UploadPanel {
 
   private async uploadFile(file: File): Promise<UploadResult> {
     const formData = new FormData();
+    const raw = this.getRawSettings();
+    formData.append('whiteBalance', raw.whiteBalance);
+    formData.append('exposure', String(raw.exposure));
+    formData.append('highlights', raw.highlights);
+    // Empty means: detect from metadata / aspect ratio
+    const horizontalFov = (this.container.querySelector('#horizontalFov') as HTMLSelectElement | null)?.value;
+    if (horizontalFov) formData.append('horizontalFov', horizontalFov);
     formData.append('file', file);
 
     return new Promise((resolve, reject) => {
@@ -233,7 +302,7 @@ export class UploadPanel {
         } else {
           try {
             const error = JSON.parse(xhr.responseText);
-            resolve({ success: false, error: error.message || `HTTP ${xhr.status}` });
+            resolve({ success: false, error: error.error || error.message || `HTTP ${xhr.status}` });
           } catch {
             resolve({ success: false, error: `HTTP ${xhr.status}` });
           }
@@ -258,21 +327,33 @@ export class UploadPanel {
     });
   }
 
+  /**
+   * Read the RAW develop settings from the form
+   */
+  private getRawSettings(): RawDevelopSettings {
+    const value = (id: string) => (this.container.querySelector(`#${id}`) as HTMLInputElement | HTMLSelectElement | null)?.value;
+
+    return {
+      whiteBalance: (value('rawWhiteBalance') as RawDevelopSettings['whiteBalance']) || 'camera',
+      exposure: Number(value('rawExposure') ?? 0),
+      highlights: (value('rawHighlights') as RawDevelopSettings['highlights']) || 'recover',
+    };
+  }
+
   private conversionInterval: number | null = null;
 
   private showConversionStatus(): void {
-    const statusText = this.container.querySelector('#statusText');
+    const statusText = this.statusText;
     const progressPercent = this.container.querySelector('#progressPercent');
-    const progressBar = this.container.querySelector('#progressBar') as HTMLElement;
     
     if (progressPercent) progressPercent.textContent = '';
-    if (progressBar) progressBar.style.width = '100%';
+    if (this.progressBar) this.progressBar.style.width = '100%';
     
     // Animated status messages
     const stages = [
       { text: '⏳ Server verarbeitet Datei...', delay: 0 },
       { text: '🔍 Analysiere Bildformat...', delay: 2000 },
-      { text: '📷 Extrahiere Bilddaten...', delay: 4000 },
+      { text: '📷 Entwickle RAW-Daten...', delay: 4000 },
       { text: '🖼️ Erstelle 4K Version...', delay: 6000 },
       { text: '🖼️ Erstelle 2K Version...', delay: 9000 },
       { text: '🖼️ Erstelle Preview...', delay: 11000 },
@@ -310,6 +391,8 @@ export class UploadPanel {
     dropzone?.classList.add('hidden');
     progress?.classList.remove('hidden');
     result?.classList.add('hidden');
+    this.container.querySelector('#rawOptions')?.classList.add('hidden');
+    this.container.querySelector('#panoramaOptions')?.classList.add('hidden');
 
     if (fileName) fileName.textContent = file.name;
     if (fileSize) fileSize.textContent = this.formatFileSize(file.size);
@@ -318,15 +401,20 @@ export class UploadPanel {
   }
 
   private updateProgress(percent: number, loaded: number, total: number): void {
-    const progressBar = this.container.querySelector('#progressBar') as HTMLElement;
     const progressPercent = this.container.querySelector('#progressPercent');
+    const fileSize = this.container.querySelector('#fileSize');
 
-    if (progressBar) {
-      progressBar.style.width = `${percent}%`;
+    if (this.progressBar) {
+      this.progressBar.style.width = `${percent}%`;
     }
     if (progressPercent) {
       progressPercent.textContent = `${percent}%`;
     }
+    if (fileSize) {
+      fileSize.textContent = loaded > 0
+        ? `${this.formatFileSize(loaded)} / ${this.formatFileSize(total)}`
+        : this.formatFileSize(total);
+    }
   }
 
   private showSuccess(result: UploadResult): void {
@@ -367,10 +455,40 @@ export class UploadPanel {
             <span>Preview</span>
           </div>
         </div>
+        ${this.renderMetadata(result.metadata)}
       `;
     }
   }
 
+  /**
+   * Summary of the metadata read from the file (values come from the file, escape them)
+   */
+  private renderMetadata(metadata?: PanoramaMetadata): string {
+    if (!metadata) return '';
+
+    const rows: [string, string][] = [];
+    if (metadata.capturedAt) {
+      const date = new Date(metadata.capturedAt);
+      rows.push(['Aufnahme', Number.isNaN(date.getTime()) ? metadata.capturedAt : date.toLocaleString('de-DE')]);
+    }
+    if (metadata.camera) rows.push(['Kamera', metadata.camera]);
+    if (metadata.gps) {
+      rows.push(['GPS', `${metadata.gps.latitude.toFixed(5)}, ${metadata.gps.longitude.toFixed(5)}`]);
+    }
+    if (metadata.heading !== undefined) rows.push(['Blickrichtung', `${metadata.heading.toFixed(0)}°`]);
+    if (metadata.crop) {
+      const coverage = Math.round((metadata.crop.croppedWidth / metadata.crop.fullWidth) * 360);
+      rows.push(['Teilpanorama', `${coverage}° horizontal`]);
+    }
+
+    if (rows.length === 0) return '';
+    return `
+      <dl class="upload-metadata">
+        ${rows.map(([label, value]) => `<dt>${label}</dt><dd>${escapeHtml(value)}</dd>`).join('')}
+      </dl>
+    `;
+  }
+
   private showError(message: string): void {
     this.clearConversionStatus();
     
@@ -398,6 +516,8 @@ export class UploadPanel {
     dropzone?.classList.remove('hidden');
     progress?.classList.add('hidden');
     resultEl?.classList.add('hidden');
+    this.container.querySelector('#rawOptions')?.classList.remove('hidden');
+    this.container.querySelector('#panoramaOptions')?.classList.remove('hidden');
 
     if (this.fileInput) this.fileInput.value = '';
   }
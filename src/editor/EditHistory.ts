@@ -0,0 +1,106 @@
+/**
+ * EditHistory - Undo/redo stack for the tour editor
+ * Each entry stores the serialized tour as it was before a change, so the
+ * stack is kept short and series of small edits are merged into one step
+ */
+
+export interface HistoryEntry {
+  /** Human-readable description, e.g. for button tooltips */
+  label: string;
+  /** Serialized tour state */
+  snapshot: string;
+  /** Panorama the change happened on, if any */
+  panoramaId?: string;
+  /** Successive changes with the same key (e.g. dragging one hotspot) merge into one step */
+  mergeKey?: string;
+}
+
+/** Maximum number of undo steps kept */
+const DEFAULT_LIMIT = 30;
+
+/** Changes further apart than this in ms stay separate steps */
+const MERGE_WINDOW = 1500;
+
+export class EditHistory {
+  private undoStack: HistoryEntry[] = [];
+  private redoStack: HistoryEntry[] = [];
+  private limit: number;
+  private lastRecordTime = 0;
+
+  constructor(limit = DEFAULT_LIMIT) {
+    this.limit = limit;
+  }
+
+  /**
+   * Record a change; `entry.snapshot` is the state before the change
+   */
+  record(entry: HistoryEntry): void {
+    const now = Date.now();
+    const last = this.undoStack[this.undoStack.length - 1];
+    const merge = entry.mergeKey !== undefined
+      && last?.mergeKey === entry.mergeKey
+      && now - this.lastRecordTime < MERGE_WINDOW;
+    this.lastRecordTime = now;
+
+    // The previous entry already holds the state before the whole series
+    if (merge) return;
+
+    this.undoStack.push(entry);
+    if (this.undoStack.length > this.limit) {
+      this.undoStack.shift();
+    }
+    this.redoStack = [];
+  }
+
+  /**
+   * Step back; returns the entry whose snapshot should be restored
+   */
+  undo(currentSnapshot: string): HistoryEntry | null {
+    const entry = this.undoStack.pop();
+    if (!entry) return null;
+
+    this.lastRecordTime = 0;
+    this.redoStack.push({ ...entry, snapshot: currentSnapshot });
+    return entry;
+  }
+
+  /**
+   * Step forward again after an undo
+   */
+  redo(currentSnapshot: string): HistoryEntry | null {
+    const entry = this.redoStack.pop();
+    if (!entry) return null;
+
+    this.lastRecordTime = 0;
+    this.undoStack.push({ ...entry, snapshot: currentSnapshot });
+    return entry;
+  }
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /**
+   * Label of the change the next undo would revert
+   */
+  peekUndo(): string | undefined {
+    return this.undoStack[this.undoStack.length - 1]?.label;
+  }
+
+  /**
+   * Label of the change the next redo would re-apply
+   */
+  peekRedo(): string | undefined {
+    return this.redoStack[this.redoStack.length - 1]?.label;
+  }
+
+  clear(): void {
+    this.lastRecordTime = 0;
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+}
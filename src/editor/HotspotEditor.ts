@@ -1,23 +1,123 @@
 /**
  * HotspotEditor - Visual editor for placing and editing hotspots
  * Allows clicking in panorama to place hotspots, drag to move, and panel to edit content
+ *
+ * Edits the given panorama in place; TourEditor hands in its session copy
  */
 
-import type { Viewer } from '@photo-sphere-viewer/core';
-import type { MarkersPlugin } from '@photo-sphere-viewer/markers-plugin';
-import type { Hotspot, InfoHotspot, NavigationHotspot, Panorama } from '../types';
+import type { Viewer, events } from '@photo-sphere-viewer/core';
+import type { MarkersPlugin, events as markerEvents } from '@photo-sphere-viewer/markers-plugin';
+import type {
+  BaseHotspot,
+  Hotspot,
+  HotspotIcon,
+  HotspotType,
+  InfoHotspot,
+  NavigationHotspot,
+  Panorama,
+  SphericalPoint,
+  UploadedMedia,
+  ViewPosition,
+} from '../types';
+import { DEFAULT_VIEW_POSITION } from '../types';
+import { escapeHtml } from '../utils/html';
+import { hasLinkTo } from '../utils/linkValidation';
+import {
+  DEFAULT_HOTSPOT_COLOR,
+  HOTSPOT_ICON_LABELS,
+  MAX_HOTSPOT_SCALE,
+  MIN_HOTSPOT_SCALE,
+  createHotspotMarker,
+  getDefaultHotspotIcon,
+  getHotspotIcon,
+  getHotspotScale,
+  getMarkerHotspot,
+} from '../viewer/hotspotMarkers';
+import {
+  MIN_AREA_POINTS,
+  clampPitch,
+  createRectArea,
+  getAreaCenter,
+  isAreaHotspot,
+  normalizeYaw,
+  translateArea,
+} from '../utils/hotspotArea';
 
 export interface HotspotEditorOptions {
   viewer: Viewer;
   markersPlugin: MarkersPlugin;
   panorama: Panorama;
+  /** All panoramas of the tour, offered as navigation targets */
+  getPanoramas?: () => Panorama[];
   onHotspotAdd?: (hotspot: Hotspot) => void;
   onHotspotUpdate?: (hotspot: Hotspot) => void;
+  /** Called once a drag or arrow-key nudge has finished */
+  onHotspotMove?: (hotspot: Hotspot) => void;
   onHotspotDelete?: (hotspotId: string) => void;
-  onSave?: (panorama: Panorama) => void;
+  /** Resolving with false means the save was cancelled (no status shown) */
+  onSave?: (panorama: Panorama) => void | boolean | Promise<void | boolean>;
+  /** Replaces the default panorama JSON download */
+  onExport?: () => void;
+  /** Replaces the default deactivate on close button / Escape */
+  onClose?: () => void;
+  /** Undo/redo are handled by the owner (see TourEditor) */
+  onUndo?: () => void;
+  onRedo?: () => void;
+  /** Stores a dropped file with the tour; without it the info form has no dropzone */
+  uploadMedia?: (file: File, onProgress?: (percent: number) => void) => Promise<UploadedMedia>;
 }
 
-type HotspotToolType = 'info' | 'navigation' | 'select';
+type HotspotToolType = 'info' | 'navigation' | 'area' | 'rect' | 'select';
+
+/** Arrow-key nudge step in degrees (with Shift: coarse step) */
+const NUDGE_STEP = 0.5;
+const NUDGE_STEP_COARSE = 5;
+
+/** Nudge direction per arrow key as [yaw, pitch] */
+const NUDGE_DIRECTIONS: Record<string, [number, number]> = {
+  ArrowLeft: [-1, 0],
+  ArrowRight: [1, 0],
+  ArrowUp: [0, 1],
+  ArrowDown: [0, -1],
+};
+
+/** Custom icons are stored as data URLs in the tour, keep them small */
+const MAX_ICON_FILE_SIZE = 100 * 1024;
+
+type MediaListKind = 'image' | 'document';
+
+interface MediaListEntry {
+  url: string;
+  /** Caption of an image, title of a document */
+  text?: string;
+}
+
+const MEDIA_LISTS: Record<MediaListKind, { addLabel: string; urlPlaceholder: string; textPlaceholder: string }> = {
+  image: { addLabel: '+ Bild', urlPlaceholder: 'https://.../bild.jpg', textPlaceholder: 'Bildunterschrift (optional)' },
+  document: { addLabel: '+ Dokument', urlPlaceholder: 'https://.../grundriss.pdf', textPlaceholder: 'Titel (optional)' },
+};
+
+/** Pointer movement in px before a press on a hotspot becomes a drag */
+const DRAG_THRESHOLD = 3;
+
+/** Clicking this close (px) to the first point closes a polygon */
+const CLOSE_POLYGON_DISTANCE = 12;
+
+/** Marker IDs of the outline being drawn and of the vertex handles */
+const DRAFT_MARKER_ID = '__area_draft';
+const VERTEX_MARKER_PREFIX = '__area_vertex_';
+
+interface DragState {
+  hotspot: Hotspot;
+  pointerId: number;
+  startX: number;
+  startY: number;
+  moved: boolean;
+  /** Set when a vertex handle of an area is dragged */
+  vertexIndex?: number;
+  /** Pointer position relative to the area centre, so areas do not jump to the pointer */
+  offset?: SphericalPoint;
+}
 
 export class HotspotEditor {
   private viewer: Viewer;
@@ -30,12 +130,20 @@ export class HotspotEditor {
   private selectedHotspot: Hotspot | null = null;
   private editorPanel: HTMLElement | null = null;
   private toolbar: HTMLElement | null = null;
+  private dragState: DragState | null = null;
+  /** Points of the area being drawn with the area or rect tool */
+  private draftPoints: SphericalPoint[] = [];
+  private vertexMarkerIds: string[] = [];
+  /** Set while arrow keys move the selection, reported on keyup */
+  private nudgePending = false;
+  /** Media uploads still running in the info form */
+  private pendingUploads = 0;
 
   constructor(options: HotspotEditorOptions) {
     this.options = options;
     this.viewer = options.viewer;
     this.markersPlugin = options.markersPlugin;
-    this.panorama = { ...options.panorama, hotspots: [...options.panorama.hotspots] };
+    this.panorama = options.panorama;
   }
 
   /**
@@ -48,7 +156,7 @@ export class HotspotEditor {
     this.createToolbar();
     this.createEditorPanel();
     this.setupEventListeners();
-    this.updateMarkerStyles();
+    this.renderMarkers();
 
     document.body.classList.add('editor-active');
   }
@@ -95,7 +203,18 @@ export class HotspotEditor {
   }
 
   /**
-   * Export tour configuration as JSON
+   * Switch to another panorama (e.g. after navigating in the tour)
+   */
+  setPanorama(panorama: Panorama): void {
+    this.deselectHotspot();
+    this.panorama = panorama;
+    if (this.isActive) {
+      this.renderMarkers();
+    }
+  }
+
+  /**
+   * Export panorama configuration as JSON
    */
   exportJson(): string {
     return JSON.stringify(this.panorama, null, 2);
@@ -129,9 +248,31 @@ export class HotspotEditor {
             <line x1="8" y1="12" x2="16" y2="12"/>
           </svg>
         </button>
+        <button class="toolbar-btn" data-tool="area" title="Bereich zeichnen (P) – Doppelklick oder Enter schließt">
+          <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+            <polygon points="4 7 12 3 20 9 17 20 6 17"/>
+          </svg>
+        </button>
+        <button class="toolbar-btn" data-tool="rect" title="Rechteckigen Bereich zeichnen (R)">
+          <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+            <rect x="3" y="6" width="18" height="12" rx="1"/>
+          </svg>
+        </button>
       </div>
       <div class="toolbar-divider"></div>
       <div class="toolbar-group">
+        <button class="toolbar-btn" id="undoBtn" title="Rückgängig (Strg+Z)" disabled>
+          <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+            <polyline points="9 14 4 9 9 4"/>
+            <path d="M20 20v-7a4 4 0 0 0-4-4H4"/>
+          </svg>
+        </button>
+        <button class="toolbar-btn" id="redoBtn" title="Wiederholen (Strg+Umschalt+Z)" disabled>
+          <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+            <polyline points="15 14 20 9 15 4"/>
+            <path d="M4 20v-7a4 4 0 0 1 4-4h12"/>
+          </svg>
+        </button>
         <button class="toolbar-btn" id="deleteHotspotBtn" title="Löschen (Del)" disabled>
           <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
             <polyline points="3 6 5 6 21 6"/>
@@ -174,6 +315,14 @@ export class HotspotEditor {
       });
     });
 
+    // Undo/redo buttons
+    this.toolbar.querySelector('#undoBtn')?.addEventListener('click', () => {
+      this.options.onUndo?.();
+    });
+    this.toolbar.querySelector('#redoBtn')?.addEventListener('click', () => {
+      this.options.onRedo?.();
+    });
+
     // Delete button
     this.toolbar.querySelector('#deleteHotspotBtn')?.addEventListener('click', () => {
       if (this.selectedHotspot) {
@@ -188,15 +337,36 @@ export class HotspotEditor {
 
     // Export button
     this.toolbar.querySelector('#exportBtn')?.addEventListener('click', () => {
-      this.downloadJson();
+      if (this.options.onExport) {
+        this.options.onExport();
+      } else {
+        this.downloadJson();
+      }
     });
 
     // Close button
     this.toolbar.querySelector('#closeEditorBtn')?.addEventListener('click', () => {
-      this.deactivate();
+      this.close();
     });
   }
 
+  /**
+   * Update the undo/redo buttons (labels describe the affected change)
+   */
+  setHistoryState(undoLabel?: string, redoLabel?: string): void {
+    const undoBtn = this.toolbar?.querySelector('#undoBtn') as HTMLButtonElement | null;
+    const redoBtn = this.toolbar?.querySelector('#redoBtn') as HTMLButtonElement | null;
+
+    if (undoBtn) {
+      undoBtn.disabled = !undoLabel;
+      undoBtn.title = undoLabel ? `Rückgängig: ${undoLabel} (Strg+Z)` : 'Rückgängig (Strg+Z)';
+    }
+    if (redoBtn) {
+      redoBtn.disabled = !redoLabel;
+      redoBtn.title = redoLabel ? `Wiederholen: ${redoLabel} (Strg+Umschalt+Z)` : 'Wiederholen (Strg+Umschalt+Z)';
+    }
+  }
+
   private removeToolbar(): void {
     this.toolbar?.remove();
     this.toolbar = null;
@@ -233,6 +403,9 @@ export class HotspotEditor {
   }
 
   private selectTool(tool: HotspotToolType): void {
+    if (tool !== this.currentTool) {
+      this.cancelDraft();
+    }
     this.currentTool = tool;
     
     this.toolbar?.querySelectorAll('[data-tool]').forEach((btn) => {
@@ -248,25 +421,209 @@ export class HotspotEditor {
   // Event Handling
   // ==========================================
 
-  private clickHandler = (e: { data: { rightclick: boolean }; args: [{ yaw: number; pitch: number }] }) => {
+  private clickHandler = (e: events.ClickEvent) => {
     if (e.data.rightclick) return;
     
-    const position = e.args[0];
-    
     if (this.currentTool === 'info' || this.currentTool === 'navigation') {
-      this.addHotspot(this.currentTool, position);
+      this.addHotspot(this.currentTool, { yaw: e.data.yaw, pitch: e.data.pitch });
+    } else if (this.currentTool === 'area' || this.currentTool === 'rect') {
+      this.addDraftPoint(
+        { yaw: (e.data.yaw * 180) / Math.PI, pitch: (e.data.pitch * 180) / Math.PI },
+        { x: e.data.viewerX, y: e.data.viewerY }
+      );
     }
   };
 
-  private markerSelectHandler = (e: { marker: { id: string; data?: { hotspot?: Hotspot } } }) => {
-    const hotspot = e.marker.data?.hotspot;
+  /**
+   * PSV reports the second click of a double click only as dblclick
+   */
+  private doubleClickHandler = () => {
+    if (this.currentTool === 'area' && this.draftPoints.length >= MIN_AREA_POINTS) {
+      this.finishDraft();
+    }
+  };
+
+  /**
+   * Double click on a vertex handle removes the vertex
+   */
+  private vertexDoubleClickHandler = (e: MouseEvent) => {
+    const vertex = this.getVertexAt(e.target);
+    if (vertex) {
+      e.stopPropagation();
+      this.removeVertex(vertex.hotspot, vertex.index);
+    }
+  };
+
+  private markerSelectHandler = (e: markerEvents.SelectMarkerEvent) => {
+    const hotspot = getMarkerHotspot(e.marker);
     if (hotspot) {
       this.selectHotspot(hotspot);
     }
   };
 
+  /**
+   * Start dragging a hotspot; the viewer must not see this press,
+   * otherwise it would rotate the panorama instead
+   */
+  private pointerDownHandler = (e: PointerEvent) => {
+    if (this.currentTool !== 'select' || e.button !== 0) return;
+
+    const vertex = this.getVertexAt(e.target);
+    const hotspot = vertex?.hotspot ?? this.getHotspotAt(e.target);
+    if (!hotspot) return;
+
+    if (!vertex) {
+      this.selectHotspot(hotspot);
+    }
+
+    const pointer = isAreaHotspot(hotspot) && !vertex ? this.getPointerPosition(e) : null;
+    this.dragState = {
+      hotspot,
+      pointerId: e.pointerId,
+      startX: e.clientX,
+      startY: e.clientY,
+      moved: false,
+      vertexIndex: vertex?.index,
+      offset: pointer
+        ? { yaw: normalizeYaw(pointer.yaw - hotspot.position.yaw), pitch: pointer.pitch - hotspot.position.pitch }
+        : undefined,
+    };
+
+    window.addEventListener('pointermove', this.pointerMoveHandler);
+    window.addEventListener('pointerup', this.pointerUpHandler);
+    window.addEventListener('pointercancel', this.pointerUpHandler);
+  };
+
+  private blockViewerPressHandler = (e: Event) => {
+    if (this.currentTool === 'select' && (this.getHotspotAt(e.target) || this.getVertexAt(e.target))) {
+      e.stopPropagation();
+    }
+  };
+
+  private pointerMoveHandler = (e: PointerEvent) => {
+    const drag = this.dragState;
+    if (!drag || e.pointerId !== drag.pointerId) return;
+
+    if (!drag.moved) {
+      const distance = Math.hypot(e.clientX - drag.startX, e.clientY - drag.startY);
+      if (distance < DRAG_THRESHOLD) return;
+      drag.moved = true;
+      this.viewer.container.style.cursor = 'grabbing';
+    }
+
+    const position = this.getPointerPosition(e);
+    if (!position) return;
+
+    if (drag.vertexIndex !== undefined) {
+      this.moveVertex(drag.hotspot, drag.vertexIndex, position);
+    } else {
+      const offset = drag.offset ?? { yaw: 0, pitch: 0 };
+      this.moveHotspot(drag.hotspot, position.yaw - offset.yaw, position.pitch - offset.pitch);
+    }
+  };
+
+  /**
+   * Pointer position on the sphere in degrees
+   */
+  private getPointerPosition(e: PointerEvent): SphericalPoint | null {
+    const rect = this.viewer.container.getBoundingClientRect();
+    const position = this.viewer.dataHelper.viewerCoordsToSphericalCoords({
+      x: e.clientX - rect.left,
+      y: e.clientY - rect.top,
+    });
+    if (!position) return null;
+
+    return { yaw: (position.yaw * 180) / Math.PI, pitch: (position.pitch * 180) / Math.PI };
+  }
+
+  private pointerUpHandler = (e: PointerEvent) => {
+    const drag = this.dragState;
+    if (!drag || e.pointerId !== drag.pointerId) return;
+
+    this.endDrag();
+    if (drag.moved) {
+      this.options.onHotspotMove?.(drag.hotspot);
+    }
+  };
+
+  private endDrag(): void {
+    this.dragState = null;
+    window.removeEventListener('pointermove', this.pointerMoveHandler);
+    window.removeEventListener('pointerup', this.pointerUpHandler);
+    window.removeEventListener('pointercancel', this.pointerUpHandler);
+    this.selectTool(this.currentTool);
+  }
+
+  private getHotspotAt(target: EventTarget | null): Hotspot | undefined {
+    if (!(target instanceof Element)) return undefined;
+    // Polygons are SVG elements, read the attribute instead of dataset
+    const id = target.closest('[data-hotspot-id]')?.getAttribute('data-hotspot-id');
+    return id ? this.panorama.hotspots.find((h) => h.id === id) : undefined;
+  }
+
+  private getVertexAt(target: EventTarget | null): { hotspot: Hotspot; index: number } | undefined {
+    if (!(target instanceof Element)) return undefined;
+    const handle = target.closest<HTMLElement>('[data-vertex-of]');
+    const hotspot = this.panorama.hotspots.find((h) => h.id === handle?.dataset.vertexOf);
+    return hotspot && handle ? { hotspot, index: Number(handle.dataset.vertexIndex) } : undefined;
+  }
+
+  private keyupHandler = (e: KeyboardEvent) => {
+    if (this.nudgePending && e.key.startsWith('Arrow')) {
+      this.nudgePending = false;
+      if (this.selectedHotspot) {
+        this.options.onHotspotMove?.(this.selectedHotspot);
+      }
+    }
+  };
+
   private keydownHandler = (e: KeyboardEvent) => {
     if (!this.isActive) return;
+    // Don't hijack typing in form fields
+    if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement || e.target instanceof HTMLSelectElement) {
+      return;
+    }
+
+    // Undo: Ctrl/Cmd+Z, Redo: Ctrl/Cmd+Shift+Z or Ctrl+Y
+    if (e.ctrlKey || e.metaKey) {
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        this.options.onUndo?.();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        this.options.onRedo?.();
+      }
+      return;
+    }
+
+    // Drawing an area: Enter closes the outline, Escape drops it
+    if (this.draftPoints.length > 0) {
+      if (e.key === 'Enter' && this.currentTool === 'area' && this.draftPoints.length >= MIN_AREA_POINTS) {
+        e.preventDefault();
+        this.finishDraft();
+        return;
+      }
+      if (e.key === 'Escape') {
+        this.cancelDraft();
+        return;
+      }
+    }
+
+    // Arrow keys nudge the selected hotspot instead of rotating the view
+    if (this.selectedHotspot && e.key.startsWith('Arrow')) {
+      const direction = NUDGE_DIRECTIONS[e.key];
+      if (direction) {
+        const step = e.shiftKey ? NUDGE_STEP_COARSE : NUDGE_STEP;
+        const { yaw, pitch } = this.selectedHotspot.position;
+
+        e.preventDefault();
+        e.stopPropagation();
+        this.moveHotspot(this.selectedHotspot, yaw + direction[0] * step, pitch + direction[1] * step);
+        this.nudgePending = true;
+      }
+      return;
+    }
     
     switch (e.key) {
       case 'v':
@@ -281,6 +638,14 @@ export class HotspotEditor {
       case 'N':
         this.selectTool('navigation');
         break;
+      case 'p':
+      case 'P':
+        this.selectTool('area');
+        break;
+      case 'r':
+      case 'R':
+        this.selectTool('rect');
+        break;
       case 'Delete':
       case 'Backspace':
         if (this.selectedHotspot) {
@@ -291,7 +656,7 @@ export class HotspotEditor {
         if (this.selectedHotspot) {
           this.deselectHotspot();
         } else {
-          this.deactivate();
+          this.close();
         }
         break;
     }
@@ -299,14 +664,32 @@ export class HotspotEditor {
 
   private setupEventListeners(): void {
     this.viewer.addEventListener('click', this.clickHandler);
+    this.viewer.addEventListener('dblclick', this.doubleClickHandler);
     this.markersPlugin.addEventListener('select-marker', this.markerSelectHandler);
     document.addEventListener('keydown', this.keydownHandler);
+    document.addEventListener('keyup', this.keyupHandler);
+
+    const container = this.viewer.container;
+    container.addEventListener('pointerdown', this.pointerDownHandler, true);
+    container.addEventListener('mousedown', this.blockViewerPressHandler, true);
+    container.addEventListener('touchstart', this.blockViewerPressHandler, true);
+    container.addEventListener('dblclick', this.vertexDoubleClickHandler, true);
   }
 
   private removeEventListeners(): void {
     this.viewer.removeEventListener('click', this.clickHandler);
+    this.viewer.removeEventListener('dblclick', this.doubleClickHandler);
     this.markersPlugin.removeEventListener('select-marker', this.markerSelectHandler);
     document.removeEventListener('keydown', this.keydownHandler);
+    document.removeEventListener('keyup', this.keyupHandler);
+
+    const container = this.viewer.container;
+    container.removeEventListener('pointerdown', this.pointerDownHandler, true);
+    container.removeEventListener('mousedown', this.blockViewerPressHandler, true);
+    container.removeEventListener('touchstart', this.blockViewerPressHandler, true);
+    container.removeEventListener('dblclick', this.vertexDoubleClickHandler, true);
+    this.endDrag();
+    this.cancelDraft();
   }
 
   // ==========================================
@@ -359,20 +742,196 @@ export class HotspotEditor {
     this.selectTool('select');
   }
 
+  /**
+   * Area hotspots start as info hotspots, the action can be switched in the panel
+   */
+  private addAreaHotspot(area: SphericalPoint[]): void {
+    const hotspot: InfoHotspot = {
+      id: `hotspot_${Date.now()}`,
+      type: 'info',
+      position: getAreaCenter(area),
+      area,
+      tooltip: 'Neuer Bereich',
+      content: {
+        title: 'Neuer Bereich',
+        description: '',
+      },
+    };
+
+    this.panorama.hotspots.push(hotspot);
+    this.addMarkerForHotspot(hotspot);
+    this.selectHotspot(hotspot);
+    this.options.onHotspotAdd?.(hotspot);
+    this.selectTool('select');
+  }
+
   private addMarkerForHotspot(hotspot: Hotspot): void {
-    const isInfo = hotspot.type === 'info';
-    
-    this.markersPlugin.addMarker({
+    this.markersPlugin.addMarker(createHotspotMarker(hotspot, 'editor-hotspot'));
+    this.syncMarkerElement(hotspot);
+  }
+
+  /**
+   * Updating a marker resets its classes, restore the editor state.
+   * Polygons have no markup of their own, their SVG path is tagged so
+   * presses on it are found like on icon hotspots.
+   */
+  private syncMarkerElement(hotspot: Hotspot): void {
+    const element = this.markersPlugin.getMarker(hotspot.id).domElement;
+    element.classList.add('editor-mode');
+    element.classList.toggle('selected', this.selectedHotspot?.id === hotspot.id);
+    if (isAreaHotspot(hotspot)) {
+      element.setAttribute('data-hotspot-id', hotspot.id);
+    }
+  }
+
+  /**
+   * Replace all markers with the hotspots of the current panorama,
+   * navigation hotspots included
+   */
+  private renderMarkers(): void {
+    this.markersPlugin.clearMarkers();
+    this.vertexMarkerIds = [];
+    this.draftPoints = [];
+    this.panorama.hotspots.forEach((hotspot) => this.addMarkerForHotspot(hotspot));
+    this.updateMarkerStyles();
+  }
+
+  // ==========================================
+  // Area Drawing
+  // ==========================================
+
+  /**
+   * Polygon: every click adds a point, clicking the first point closes it.
+   * Rectangle: two clicks on opposite corners.
+   */
+  private addDraftPoint(point: SphericalPoint, screen: { x: number; y: number }): void {
+    if (this.currentTool === 'rect') {
+      if (this.draftPoints.length === 0) {
+        this.draftPoints = [point];
+        this.renderDraft();
+      } else {
+        const from = this.draftPoints[0];
+        this.cancelDraft();
+        this.addAreaHotspot(createRectArea(from, point));
+      }
+      return;
+    }
+
+    if (this.draftPoints.length >= MIN_AREA_POINTS && this.isNearFirstDraftPoint(screen)) {
+      this.finishDraft();
+      return;
+    }
+
+    this.draftPoints.push(point);
+    this.renderDraft();
+  }
+
+  private isNearFirstDraftPoint(screen: { x: number; y: number }): boolean {
+    const first = this.draftPoints[0];
+    const firstScreen = this.viewer.dataHelper.sphericalCoordsToViewerCoords({
+      yaw: (first.yaw * Math.PI) / 180,
+      pitch: (first.pitch * Math.PI) / 180,
+    });
+    return Math.hypot(firstScreen.x - screen.x, firstScreen.y - screen.y) <= CLOSE_POLYGON_DISTANCE;
+  }
+
+  private finishDraft(): void {
+    const area = this.draftPoints;
+    this.cancelDraft();
+    if (area.length >= MIN_AREA_POINTS) {
+      this.addAreaHotspot(area);
+    }
+  }
+
+  private cancelDraft(): void {
+    this.clearDraftMarkers();
+    this.draftPoints = [];
+  }
+
+  /**
+   * Outline drawn so far, with a dot per point
+   */
+  private renderDraft(): void {
+    this.clearDraftMarkers();
+
+    if (this.draftPoints.length > 1) {
+      this.markersPlugin.addMarker({
+        id: DRAFT_MARKER_ID,
+        polyline: this.draftPoints.map((p): [string, string] => [`${p.yaw}deg`, `${p.pitch}deg`]),
+        className: 'area-draft',
+        svgStyle: { stroke: DEFAULT_HOTSPOT_COLOR, strokeWidth: '2px', strokeDasharray: '6 4' },
+      });
+    }
+    this.draftPoints.forEach((p, index) => {
+      this.markersPlugin.addMarker({
+        id: `${DRAFT_MARKER_ID}_${index}`,
+        position: { yaw: `${p.yaw}deg`, pitch: `${p.pitch}deg` },
+        html: `<div class="area-vertex${index === 0 ? ' area-vertex-first' : ''}"></div>`,
+        anchor: 'center center',
+      });
+    });
+  }
+
+  private clearDraftMarkers(): void {
+    const ids = this.markersPlugin.getMarkers()
+      .map((marker) => marker.id)
+      .filter((id) => id.startsWith(DRAFT_MARKER_ID));
+    ids.forEach((id) => this.markersPlugin.removeMarker(id));
+  }
+
+  // ==========================================
+  // Area Vertices
+  // ==========================================
+
+  /**
+   * Draggable handles on the corners of the selected area
+   */
+  private renderVertexHandles(hotspot: Hotspot | null): void {
+    this.vertexMarkerIds.forEach((id) => this.markersPlugin.removeMarker(id));
+    this.vertexMarkerIds = [];
+    if (!hotspot || !isAreaHotspot(hotspot)) return;
+
+    hotspot.area.forEach((p, index) => {
+      const id = `${VERTEX_MARKER_PREFIX}${hotspot.id}_${index}`;
+      this.markersPlugin.addMarker({
+        id,
+        position: { yaw: `${p.yaw}deg`, pitch: `${p.pitch}deg` },
+        html: `<div class="area-vertex" data-vertex-of="${escapeHtml(hotspot.id)}" data-vertex-index="${index}" title="Ziehen zum Verschieben, Doppelklick zum Löschen"></div>`,
+        anchor: 'center center',
+      });
+      this.vertexMarkerIds.push(id);
+    });
+  }
+
+  private moveVertex(hotspot: Hotspot, index: number, point: SphericalPoint): void {
+    if (!isAreaHotspot(hotspot) || !hotspot.area[index]) return;
+
+    hotspot.area[index] = { yaw: normalizeYaw(point.yaw), pitch: clampPitch(point.pitch) };
+    hotspot.position = getAreaCenter(hotspot.area);
+    this.updateAreaMarker(hotspot);
+
+    this.markersPlugin.updateMarker({
+      id: this.vertexMarkerIds[index],
+      position: { yaw: `${hotspot.area[index].yaw}deg`, pitch: `${hotspot.area[index].pitch}deg` },
+    });
+  }
+
+  private removeVertex(hotspot: Hotspot, index: number): void {
+    if (!isAreaHotspot(hotspot) || hotspot.area.length <= MIN_AREA_POINTS) return;
+
+    // In place, the open form still refers to this object
+    hotspot.area = hotspot.area.filter((_, i) => i !== index);
+    hotspot.position = getAreaCenter(hotspot.area);
+    this.updateHotspot(hotspot);
+    this.showEditPanel(hotspot);
+  }
+
+  private updateAreaMarker(hotspot: Hotspot & { area: SphericalPoint[] }): void {
+    this.markersPlugin.updateMarker({
       id: hotspot.id,
-      position: {
-        yaw: `${hotspot.position.yaw}deg`,
-        pitch: `${hotspot.position.pitch}deg`,
-      },
-      html: `<div class="hotspot hotspot-${hotspot.type} editor-hotspot" data-hotspot-id="${hotspot.id}"></div>`,
-      anchor: 'center center',
-      tooltip: hotspot.tooltip,
-      data: { hotspot },
+      polygon: hotspot.area.map((p): [string, string] => [`${p.yaw}deg`, `${p.pitch}deg`]),
     });
+    this.syncMarkerElement(hotspot);
   }
 
   private selectHotspot(hotspot: Hotspot): void {
@@ -386,6 +945,8 @@ export class HotspotEditor {
       }
     });
 
+    this.renderVertexHandles(hotspot);
+
     // Update delete button
     const deleteBtn = this.toolbar?.querySelector('#deleteHotspotBtn') as HTMLButtonElement;
     if (deleteBtn) deleteBtn.disabled = false;
@@ -402,6 +963,8 @@ export class HotspotEditor {
       marker.domElement?.classList.remove('selected');
     });
 
+    this.renderVertexHandles(null);
+
     // Update delete button
     const deleteBtn = this.toolbar?.querySelector('#deleteHotspotBtn') as HTMLButtonElement;
     if (deleteBtn) deleteBtn.disabled = true;
@@ -424,6 +987,38 @@ export class HotspotEditor {
     this.options.onHotspotDelete?.(id);
   }
 
+  /**
+   * Set a hotspot's position in degrees and move its marker along
+   */
+  private moveHotspot(hotspot: Hotspot, yaw: number, pitch: number): void {
+    if (isAreaHotspot(hotspot)) {
+      // Areas move as a whole, the centre follows the outline
+      hotspot.area = translateArea(hotspot.area, yaw - hotspot.position.yaw, pitch - hotspot.position.pitch);
+      hotspot.position = getAreaCenter(hotspot.area);
+      this.updateAreaMarker(hotspot);
+      hotspot.area.forEach((p, index) => {
+        this.markersPlugin.updateMarker({
+          id: this.vertexMarkerIds[index],
+          position: { yaw: `${p.yaw}deg`, pitch: `${p.pitch}deg` },
+        });
+      });
+      return;
+    }
+
+    // Keep yaw in -180..180 and pitch on the sphere
+    hotspot.position.yaw = normalizeYaw(yaw);
+    hotspot.position.pitch = clampPitch(pitch);
+
+    this.markersPlugin.updateMarker({
+      id: hotspot.id,
+      position: {
+        yaw: `${hotspot.position.yaw}deg`,
+        pitch: `${hotspot.position.pitch}deg`,
+      },
+    });
+    this.syncMarkerElement(hotspot);
+  }
+
   private updateHotspot(hotspot: Hotspot): void {
     // Update in panorama
     const index = this.panorama.hotspots.findIndex((h) => h.id === hotspot.id);
@@ -431,12 +1026,12 @@ export class HotspotEditor {
       this.panorama.hotspots[index] = hotspot;
     }
 
-    // Update marker tooltip
-    this.markersPlugin.updateMarker({
-      id: hotspot.id,
-      tooltip: hotspot.tooltip,
-      data: { hotspot },
-    });
+    // Update marker tooltip, appearance and outline
+    this.markersPlugin.updateMarker(createHotspotMarker(hotspot, 'editor-hotspot'));
+    this.syncMarkerElement(hotspot);
+    if (this.selectedHotspot?.id === hotspot.id) {
+      this.renderVertexHandles(hotspot);
+    }
 
     // Callback
     this.options.onHotspotUpdate?.(hotspot);
@@ -476,32 +1071,55 @@ export class HotspotEditor {
 
   private renderInfoHotspotForm(hotspot: InfoHotspot): string {
     const content = hotspot.content || {};
+    // The single image of older tours is edited as first gallery image
+    const images = [...(content.image ? [{ url: content.image }] : []), ...(content.images ?? [])];
     return `
       <form class="hotspot-form" id="hotspotForm">
+        ${this.renderAreaFields(hotspot)}
         <div class="form-group">
           <label>Titel</label>
-          <input type="text" name="title" value="${content.title || ''}" placeholder="Titel eingeben..." />
+          <input type="text" name="title" value="${escapeHtml(content.title || '')}" placeholder="Titel eingeben..." />
         </div>
         <div class="form-group">
           <label>Beschreibung</label>
-          <textarea name="description" rows="3" placeholder="Beschreibung eingeben...">${content.description || ''}</textarea>
+          <textarea name="description" rows="4" placeholder="Beschreibung eingeben...">${escapeHtml(content.description || '')}</textarea>
+          <p class="form-hint">Markdown: **fett**, *kursiv*, - Listen, [Link](https://...)</p>
         </div>
+        ${this.options.uploadMedia ? `
+          <div class="media-dropzone">
+            <p>
+              Bilder, Videos, Audio oder PDFs hierher ziehen oder
+              <label class="media-dropzone-pick">auswählen<input type="file" class="media-file-input" multiple accept="image/*,video/*,audio/*,application/pdf" hidden /></label>
+            </p>
+            <ul class="media-uploads"></ul>
+          </div>
+        ` : ''}
         <div class="form-group">
-          <label>Bild-URL</label>
-          <input type="url" name="image" value="${content.image || ''}" placeholder="https://..." />
+          <label>Bilder</label>
+          ${this.renderMediaList('image', images.map((image) => ({ url: image.url, text: image.caption })))}
         </div>
         <div class="form-group">
-          <label>Video-URL</label>
-          <input type="url" name="video" value="${content.video || ''}" placeholder="https://..." />
+          <label>Video</label>
+          <input type="url" name="video" value="${escapeHtml(content.video || '')}" placeholder="https://youtu.be/..." />
+          <p class="form-hint">Videodatei (MP4/WebM), YouTube- oder Vimeo-Link – wird datenschutzfreundlich eingebettet.</p>
+        </div>
+        <div class="form-group">
+          <label>Audio</label>
+          <input type="url" name="audio" value="${escapeHtml(content.audio || '')}" placeholder="https://.../audio.mp3" />
+        </div>
+        <div class="form-group">
+          <label>Dokumente (PDF, Grundrisse)</label>
+          ${this.renderMediaList('document', (content.documents ?? []).map((doc) => ({ url: doc.url, text: doc.title })))}
         </div>
         <div class="form-group">
           <label>Link</label>
-          <input type="url" name="linkUrl" value="${content.link?.url || ''}" placeholder="https://..." />
-          <input type="text" name="linkLabel" value="${content.link?.label || ''}" placeholder="Link-Text (optional)" class="mt-sm" />
+          <input type="url" name="linkUrl" value="${escapeHtml(content.link?.url || '')}" placeholder="https://..." />
+          <input type="text" name="linkLabel" value="${escapeHtml(content.link?.label || '')}" placeholder="Link-Text (optional)" class="mt-sm" />
         </div>
+        ${this.renderAppearanceFields(hotspot)}
         <div class="form-group">
           <label>Tooltip</label>
-          <input type="text" name="tooltip" value="${hotspot.tooltip || ''}" placeholder="Text beim Hover..." />
+          <input type="text" name="tooltip" value="${escapeHtml(hotspot.tooltip || '')}" placeholder="Text beim Hover..." />
         </div>
         <div class="form-actions">
           <button type="submit" class="btn-primary">Übernehmen</button>
@@ -511,15 +1129,43 @@ export class HotspotEditor {
   }
 
   private renderNavigationHotspotForm(hotspot: NavigationHotspot): string {
+    const targets = (this.options.getPanoramas?.() ?? []).filter((p) => p.id !== this.panorama.id);
+    const selected = targets.find((p) => p.id === hotspot.targetPanorama);
+
+    const options = targets.map((panorama) => `
+      <label class="target-option">
+        <input type="radio" name="targetPanorama" value="${escapeHtml(panorama.id)}" ${panorama === selected ? 'checked' : ''} />
+        <img class="panorama-thumb" src="${escapeHtml(panorama.images.low)}" alt="" loading="lazy" />
+        <span>${escapeHtml(panorama.name)}</span>
+      </label>
+    `).join('');
+
+    // Tell the author why the old target is not in the list
+    const summary = selected
+      ? `<img class="panorama-thumb" src="${escapeHtml(selected.images.low)}" alt="" /><span>${escapeHtml(selected.name)}</span>`
+      : `<span class="target-missing">${hotspot.targetPanorama ? `Fehlt: ${escapeHtml(hotspot.targetPanorama)}` : 'Ziel wählen...'}</span>`;
+
     return `
       <form class="hotspot-form" id="hotspotForm">
+        ${this.renderAreaFields(hotspot)}
         <div class="form-group">
-          <label>Ziel-Panorama ID</label>
-          <input type="text" name="targetPanorama" value="${hotspot.targetPanorama || ''}" placeholder="z.B. pano-2" />
+          <label>Ziel-Panorama</label>
+          <details class="target-picker" ${selected ? '' : 'open'}>
+            <summary>${summary}</summary>
+            <div class="target-options">
+              ${options || '<p class="panel-empty">Die Tour hat noch keine weiteren Panoramen.</p>'}
+            </div>
+          </details>
         </div>
+        ${this.renderArrivalFields(hotspot)}
+        <label class="checkbox-label">
+          <input type="checkbox" name="reverseLink" checked />
+          <span>Rücklink im Ziel-Panorama anlegen</span>
+        </label>
+        ${this.renderAppearanceFields(hotspot)}
         <div class="form-group">
           <label>Tooltip</label>
-          <input type="text" name="tooltip" value="${hotspot.tooltip || ''}" placeholder="Text beim Hover..." />
+          <input type="text" name="tooltip" value="${escapeHtml(hotspot.tooltip || '')}" placeholder="Text beim Hover..." />
         </div>
         <div class="form-actions">
           <button type="submit" class="btn-primary">Übernehmen</button>
@@ -528,22 +1174,322 @@ export class HotspotEditor {
     `;
   }
 
+  /**
+   * Camera in the target panorama after following the link
+   */
+  private renderArrivalFields(hotspot: NavigationHotspot): string {
+    const view = hotspot.arrivalView;
+
+    return `
+      <div class="form-group">
+        <label>Blickrichtung bei Ankunft</label>
+        <div class="form-row">
+          <div class="form-group">
+            <label>Yaw</label>
+            <input type="number" name="arrivalYaw" step="0.1" min="-180" max="180" value="${view?.yaw ?? ''}" />
+          </div>
+          <div class="form-group">
+            <label>Pitch</label>
+            <input type="number" name="arrivalPitch" step="0.1" min="-90" max="90" value="${view?.pitch ?? ''}" />
+          </div>
+          <div class="form-group">
+            <label>FOV</label>
+            <input type="number" name="arrivalFov" step="1" value="${view?.fov ?? ''}" />
+          </div>
+        </div>
+        <button type="button" class="btn-inline" data-action="arrival-from-target">Startansicht des Ziels übernehmen</button>
+        <p class="form-hint">Leer: Blick in Laufrichtung.</p>
+      </div>
+    `;
+  }
+
+  /**
+   * Editable rows of URL and caption/title, for images and documents
+   */
+  private renderMediaList(kind: MediaListKind, entries: MediaListEntry[]): string {
+    return `
+      <ul class="media-list" data-media-list="${kind}">
+        ${entries.map((entry) => this.renderMediaRow(kind, entry)).join('')}
+      </ul>
+      <button type="button" class="media-add" data-action="media-add" data-media-list="${kind}">${MEDIA_LISTS[kind].addLabel}</button>
+    `;
+  }
+
+  private renderMediaRow(kind: MediaListKind, entry: MediaListEntry = { url: '' }): string {
+    const list = MEDIA_LISTS[kind];
+    return `
+      <li class="media-row">
+        <input type="url" name="${kind}Url" value="${escapeHtml(entry.url)}" placeholder="${list.urlPlaceholder}" />
+        <input type="text" name="${kind}Text" value="${escapeHtml(entry.text ?? '')}" placeholder="${list.textPlaceholder}" />
+        <div class="panorama-item-actions">
+          <button type="button" data-action="media-remove" title="Entfernen">✕</button>
+        </div>
+      </li>
+    `;
+  }
+
+  private setupMediaListListeners(form: HTMLFormElement): void {
+    form.addEventListener('click', (e) => {
+      const button = (e.target as HTMLElement).closest<HTMLElement>('[data-action]');
+      if (button?.dataset.action === 'media-add') {
+        const kind = button.dataset.mediaList as MediaListKind;
+        const list = form.querySelector(`.media-list[data-media-list="${kind}"]`);
+        list?.insertAdjacentHTML('beforeend', this.renderMediaRow(kind));
+        list?.querySelector<HTMLInputElement>('.media-row:last-child input')?.focus();
+      } else if (button?.dataset.action === 'media-remove') {
+        button.closest('.media-row')?.remove();
+      }
+    });
+  }
+
+  /**
+   * Files dropped anywhere on the form (or picked) are uploaded and
+   * their URLs filled into the matching fields
+   */
+  private setupMediaDropListeners(form: HTMLFormElement): void {
+    const dropzone = form.querySelector<HTMLElement>('.media-dropzone');
+    if (!dropzone || !this.options.uploadMedia) return;
+
+    const hasFiles = (e: DragEvent) => e.dataTransfer?.types.includes('Files') ?? false;
+
+    form.addEventListener('dragover', (e) => {
+      if (!hasFiles(e)) return;
+      e.preventDefault();
+      dropzone.classList.add('is-dragover');
+    });
+    form.addEventListener('dragleave', (e) => {
+      // Leaving a child element is no leave of the form
+      if (!form.contains(e.relatedTarget as Node | null)) {
+        dropzone.classList.remove('is-dragover');
+      }
+    });
+    form.addEventListener('drop', (e) => {
+      if (!hasFiles(e)) return;
+      e.preventDefault();
+      dropzone.classList.remove('is-dragover');
+      void this.uploadMediaFiles(form, Array.from(e.dataTransfer?.files ?? []));
+    });
+
+    dropzone.querySelector<HTMLInputElement>('.media-file-input')?.addEventListener('change', (e) => {
+      const input = e.target as HTMLInputElement;
+      void this.uploadMediaFiles(form, Array.from(input.files ?? []));
+      input.value = '';
+    });
+  }
+
+  /**
+   * Upload one file after the other; Übernehmen stays disabled until all are done
+   */
+  private async uploadMediaFiles(form: HTMLFormElement, files: File[]): Promise<void> {
+    const uploadMedia = this.options.uploadMedia;
+    const list = form.querySelector('.media-uploads');
+    const submit = form.querySelector<HTMLButtonElement>('button[type="submit"]');
+    if (!uploadMedia || !list || files.length === 0) return;
+
+    const items = files.map((file) => {
+      const item = document.createElement('li');
+      item.textContent = `${file.name} – wartet`;
+      list.appendChild(item);
+      return item;
+    });
+
+    this.pendingUploads += files.length;
+    if (submit) submit.disabled = true;
+
+    for (const [index, file] of files.entries()) {
+      const item = items[index];
+      try {
+        const media = await uploadMedia(file, (percent) => {
+          item.textContent = `${file.name} – ${percent} %`;
+        });
+        this.insertUploadedMedia(form, media, file.name);
+        item.remove();
+      } catch (error) {
+        item.textContent = `${file.name}: ${error instanceof Error ? error.message : 'Unbekannter Fehler'}`;
+        item.classList.add('is-error');
+      } finally {
+        this.pendingUploads--;
+      }
+    }
+
+    if (submit && this.pendingUploads === 0) submit.disabled = false;
+  }
+
+  private insertUploadedMedia(form: HTMLFormElement, media: UploadedMedia, fileName: string): void {
+    switch (media.kind) {
+      case 'image':
+      case 'document': {
+        const list = form.querySelector(`.media-list[data-media-list="${media.kind}"]`);
+        // Documents get their file name as title
+        const text = media.kind === 'document' ? fileName.replace(/\.[^.]*$/, '') : undefined;
+        list?.insertAdjacentHTML('beforeend', this.renderMediaRow(media.kind, { url: media.url, text }));
+        break;
+      }
+      case 'video':
+      case 'audio': {
+        const input = form.querySelector<HTMLInputElement>(`input[name="${media.kind}"]`);
+        if (input) input.value = media.url;
+        break;
+      }
+    }
+  }
+
+  /**
+   * What clicking an area does, plus a hint on editing the outline
+   */
+  private renderAreaFields(hotspot: Hotspot): string {
+    if (!isAreaHotspot(hotspot)) return '';
+
+    return `
+      <div class="form-group">
+        <label>Aktion beim Klick auf den Bereich</label>
+        <select name="areaAction">
+          <option value="info" ${hotspot.type === 'info' ? 'selected' : ''}>Info-Popup öffnen</option>
+          <option value="navigation" ${hotspot.type === 'navigation' ? 'selected' : ''}>Zu Panorama wechseln</option>
+        </select>
+        <p class="form-hint">${hotspot.area.length} Eckpunkte – ziehen zum Anpassen, Doppelklick entfernt einen Punkt.</p>
+      </div>
+    `;
+  }
+
+  private setupAreaListeners(form: HTMLFormElement, hotspot: Hotspot): void {
+    form.querySelector<HTMLSelectElement>('select[name="areaAction"]')?.addEventListener('change', (e) => {
+      this.convertAreaHotspot(hotspot, (e.target as HTMLSelectElement).value as HotspotType);
+    });
+  }
+
+  /**
+   * Switch an area between info popup and navigation, keeping outline and look
+   */
+  private convertAreaHotspot(hotspot: Hotspot, type: HotspotType): void {
+    if (hotspot.type === type) return;
+
+    const { id, position, area, tooltip, color } = hotspot;
+    const converted: Hotspot = type === 'info'
+      ? { id, type, position, area, tooltip, color, content: { title: tooltip } }
+      : { id, type, position, area, tooltip, color, targetPanorama: '' };
+
+    this.updateHotspot(converted);
+    this.selectHotspot(converted);
+  }
+
+  /**
+   * Icon, colour, size and (for navigation hotspots) rotation;
+   * areas only have a colour
+   */
+  private renderAppearanceFields(hotspot: Hotspot): string {
+    if (isAreaHotspot(hotspot)) {
+      return `
+        <div class="form-group">
+          <label>Farbe</label>
+          <input type="color" name="color" value="${escapeHtml(hotspot.color ?? DEFAULT_HOTSPOT_COLOR)}" />
+        </div>
+      `;
+    }
+
+    const icon = getHotspotIcon(hotspot);
+    const icons = (Object.keys(HOTSPOT_ICON_LABELS) as HotspotIcon[]).map((value) => `
+      <option value="${value}" ${value === icon ? 'selected' : ''}>${HOTSPOT_ICON_LABELS[value]}</option>
+    `).join('');
+
+    return `
+      <div class="form-group">
+        <label>Symbol</label>
+        <select name="icon">${icons}</select>
+        <div class="hotspot-custom-icon" ${icon === 'custom' ? '' : 'hidden'}>
+          <input type="url" name="iconUrl" value="${escapeHtml(hotspot.iconUrl ?? '')}" placeholder="https://.../icon.svg" class="mt-sm" />
+          <input type="file" name="iconFile" accept="image/svg+xml,image/png" class="mt-sm" />
+        </div>
+      </div>
+      <div class="form-row">
+        <div class="form-group">
+          <label>Farbe</label>
+          <input type="color" name="color" value="${escapeHtml(hotspot.color ?? DEFAULT_HOTSPOT_COLOR)}" />
+        </div>
+        <div class="form-group">
+          <label>Größe</label>
+          <input type="range" name="scale" min="${MIN_HOTSPOT_SCALE}" max="${MAX_HOTSPOT_SCALE}" step="0.1" value="${getHotspotScale(hotspot)}" />
+        </div>
+        ${hotspot.type === 'navigation' ? `
+          <div class="form-group">
+            <label>Drehung (°)</label>
+            <input type="number" name="rotation" min="-180" max="360" step="5" value="${hotspot.rotation ?? 0}" />
+          </div>
+        ` : ''}
+      </div>
+    `;
+  }
+
+  private setupAppearanceListeners(form: HTMLFormElement): void {
+    const customIcon = form.querySelector<HTMLElement>('.hotspot-custom-icon');
+    const urlInput = form.querySelector<HTMLInputElement>('input[name="iconUrl"]');
+
+    form.querySelector<HTMLSelectElement>('select[name="icon"]')?.addEventListener('change', (e) => {
+      if (customIcon) customIcon.hidden = (e.target as HTMLSelectElement).value !== 'custom';
+    });
+
+    // Uploaded icons are embedded as data URL (SVG in <img> cannot run scripts)
+    form.querySelector<HTMLInputElement>('input[name="iconFile"]')?.addEventListener('change', (e) => {
+      const input = e.target as HTMLInputElement;
+      const file = input.files?.[0];
+      if (!file || !urlInput) return;
+
+      if (file.size > MAX_ICON_FILE_SIZE) {
+        alert('Das Symbol darf höchstens 100 KB groß sein.');
+        input.value = '';
+        return;
+      }
+
+      const reader = new FileReader();
+      reader.addEventListener('load', () => {
+        urlInput.value = reader.result as string;
+      });
+      reader.readAsDataURL(file);
+    });
+  }
+
+  /**
+   * Appearance from the form, defaults are left out of the tour data
+   */
+  private readAppearance(formData: FormData, type: HotspotType): Pick<BaseHotspot, 'icon' | 'iconUrl' | 'color' | 'scale'> {
+    // Areas have no icon or size fields
+    const icon = formData.get('icon') as HotspotIcon | null;
+    const iconUrl = (formData.get('iconUrl') as string | null)?.trim();
+    const color = formData.get('color') as string;
+    const scale = Number(formData.get('scale'));
+
+    return {
+      icon: icon && icon !== getDefaultHotspotIcon(type) ? icon : undefined,
+      iconUrl: icon === 'custom' && iconUrl ? iconUrl : undefined,
+      color: color && color !== DEFAULT_HOTSPOT_COLOR ? color : undefined,
+      scale: scale && scale !== 1 ? scale : undefined,
+    };
+  }
+
   private setupInfoFormListeners(hotspot: InfoHotspot): void {
     const form = this.editorPanel?.querySelector('#hotspotForm') as HTMLFormElement;
     if (!form) return;
 
+    this.setupAreaListeners(form, hotspot);
+    this.setupAppearanceListeners(form);
+    this.setupMediaListListeners(form);
+    this.setupMediaDropListeners(form);
+
     form.addEventListener('submit', (e) => {
       e.preventDefault();
       const formData = new FormData(form);
       
       const updated: InfoHotspot = {
         ...hotspot,
+        ...this.readAppearance(formData, 'info'),
         tooltip: formData.get('tooltip') as string || undefined,
         content: {
           title: formData.get('title') as string || undefined,
           description: formData.get('description') as string || undefined,
-          image: formData.get('image') as string || undefined,
+          images: emptyToUndefined(readMediaList(formData, 'image').map(({ url, text }) => ({ url, caption: text }))),
           video: formData.get('video') as string || undefined,
+          audio: formData.get('audio') as string || undefined,
+          documents: emptyToUndefined(readMediaList(formData, 'document').map(({ url, text }) => ({ url, title: text }))),
           link: (formData.get('linkUrl') as string) ? {
             url: formData.get('linkUrl') as string,
             label: formData.get('linkLabel') as string || undefined,
@@ -560,21 +1506,76 @@ export class HotspotEditor {
     const form = this.editorPanel?.querySelector('#hotspotForm') as HTMLFormElement;
     if (!form) return;
 
+    this.setupAreaListeners(form, hotspot);
+    this.setupAppearanceListeners(form);
+
+    // Show the picked target in the collapsed picker
+    form.querySelectorAll<HTMLInputElement>('input[name="targetPanorama"]').forEach((radio) => {
+      radio.addEventListener('change', () => {
+        const option = radio.closest('.target-option');
+        const picker = form.querySelector('.target-picker') as HTMLDetailsElement | null;
+        const summary = picker?.querySelector('summary');
+        if (option && picker && summary) {
+          summary.replaceChildren(...Array.from(option.querySelectorAll('img, span'), (el) => el.cloneNode(true)));
+          picker.open = false;
+        }
+      });
+    });
+
+    // Prefill the arrival with the start view of the picked target
+    form.querySelector('[data-action="arrival-from-target"]')?.addEventListener('click', () => {
+      const targetId = (new FormData(form).get('targetPanorama') as string | null) ?? hotspot.targetPanorama;
+      const view = this.options.getPanoramas?.().find((p) => p.id === targetId)?.initialView ?? DEFAULT_VIEW_POSITION;
+      const fields: Record<keyof ViewPosition, string> = { yaw: 'arrivalYaw', pitch: 'arrivalPitch', fov: 'arrivalFov' };
+      for (const [key, name] of Object.entries(fields) as [keyof ViewPosition, string][]) {
+        const input = form.querySelector<HTMLInputElement>(`input[name="${name}"]`);
+        if (input) input.value = String(view[key]);
+      }
+    });
+
     form.addEventListener('submit', (e) => {
       e.preventDefault();
       const formData = new FormData(form);
       
+      const rotation = Number(formData.get('rotation'));
       const updated: NavigationHotspot = {
         ...hotspot,
+        ...this.readAppearance(formData, 'navigation'),
+        rotation: rotation || undefined,
+        arrivalView: readArrivalView(formData),
         tooltip: formData.get('tooltip') as string || undefined,
-        targetPanorama: formData.get('targetPanorama') as string,
+        targetPanorama: (formData.get('targetPanorama') as string | null) ?? hotspot.targetPanorama,
       };
 
+      // Add the way back first, so the update below records both changes
+      if (formData.get('reverseLink')) {
+        this.createReverseLink(updated);
+      }
+
       this.updateHotspot(updated);
       this.selectedHotspot = updated;
     });
   }
 
+  /**
+   * Add a navigation hotspot in the target panorama pointing back here,
+   * placed opposite to the direction of the forward link
+   */
+  private createReverseLink(hotspot: NavigationHotspot): void {
+    const target = this.options.getPanoramas?.().find((p) => p.id === hotspot.targetPanorama);
+    if (!target || target.id === this.panorama.id || hasLinkTo(target, this.panorama.id)) return;
+
+    const yaw = hotspot.position.yaw + 180;
+    const reverse: NavigationHotspot = {
+      id: `hotspot_${Date.now()}_back`,
+      type: 'navigation',
+      position: { yaw: yaw > 180 ? yaw - 360 : yaw, pitch: hotspot.position.pitch },
+      tooltip: this.panorama.name,
+      targetPanorama: this.panorama.id,
+    };
+    target.hotspots.push(reverse);
+  }
+
   // ==========================================
   // Marker Styles
   // ==========================================
@@ -596,14 +1597,33 @@ export class HotspotEditor {
   // Save & Export
   // ==========================================
 
-  private save(): void {
-    this.options.onSave?.(this.panorama);
-    
+  private close(): void {
+    if (this.options.onClose) {
+      this.options.onClose();
+    } else {
+      this.deactivate();
+    }
+  }
+
+  private async save(): Promise<void> {
+    const saveBtn = this.toolbar?.querySelector('#saveBtn') as HTMLButtonElement | null;
+    if (saveBtn) saveBtn.disabled = true;
+
+    let status: 'saved' | 'save-error' | null = 'saved';
+    try {
+      if (await this.options.onSave?.(this.panorama) === false) status = null;
+    } catch (error) {
+      console.error('Save failed:', error);
+      status = 'save-error';
+    }
+
+    if (saveBtn) saveBtn.disabled = false;
+
     // Show save confirmation
-    const saveBtn = this.toolbar?.querySelector('#saveBtn');
-    if (saveBtn) {
-      saveBtn.classList.add('saved');
-      setTimeout(() => saveBtn.classList.remove('saved'), 2000);
+    const shownStatus = status;
+    if (saveBtn && shownStatus) {
+      saveBtn.classList.add(shownStatus);
+      setTimeout(() => saveBtn.classList.remove(shownStatus), 2000);
     }
   }
 
@@ -620,3 +1640,33 @@ export class HotspotEditor {
     URL.revokeObjectURL(url);
   }
 }
+
+/**
+ * Filled rows of a media list; the text inputs are matched by position
+ */
+function readMediaList(formData: FormData, kind: MediaListKind): MediaListEntry[] {
+  const texts = formData.getAll(`${kind}Text`);
+  return formData.getAll(`${kind}Url`).flatMap((value, index) => {
+    const url = String(value).trim();
+    const text = String(texts[index] ?? '').trim();
+    return url ? [{ url, text: text || undefined }] : [];
+  });
+}
+
+function emptyToUndefined<T>(items: T[]): T[] | undefined {
+  return items.length > 0 ? items : undefined;
+}
+
+/**
+ * Arrival view from the navigation form; undefined keeps the walking direction
+ */
+function readArrivalView(formData: FormData): ViewPosition | undefined {
+  const yaw = (formData.get('arrivalYaw') as string | null)?.trim();
+  if (!yaw || !Number.isFinite(Number(yaw))) return undefined;
+
+  return {
+    yaw: Number(yaw),
+    pitch: Number(formData.get('arrivalPitch')) || 0,
+    fov: Number(formData.get('arrivalFov')) || DEFAULT_VIEW_POSITION.fov,
+  };
+}
@@ -0,0 +1,870 @@
+/**
+ * TourEditor - Tour-level editing session
+ * Tracks unsaved changes across all panoramas, manages the panorama list
+ * and hosts a HotspotEditor for the panorama currently shown in the viewer
+ */
+
+import type { TourViewer } from '../viewer/TourViewer';
+import { HotspotEditor } from './HotspotEditor';
+import { EditHistory } from './EditHistory';
+import type { GuidedTour, GuidedTourStep, Panorama, PanoramaImages, Tour, UploadedMedia, ViewPosition } from '../types';
+import { DEFAULT_VIEW_POSITION } from '../types';
+import { escapeHtml } from '../utils/html';
+import { findLinkIssues } from '../utils/linkValidation';
+
+export interface TourEditorOptions {
+  viewer: TourViewer;
+  tour: Tour;
+  /** Persist the tour; may return the stored version (e.g. with new timestamps) */
+  onSave?: (tour: Tour) => Promise<Tour | void> | Tour | void;
+  /** Store a file with the tour; without it the info form has no media upload */
+  uploadMedia?: (tourId: string, file: File, onProgress?: (percent: number) => void) => Promise<UploadedMedia>;
+}
+
+export class TourEditor {
+  private viewer: TourViewer;
+  private options: TourEditorOptions;
+  private tour: Tour;
+  private savedSnapshot: string;
+  /** State after the last recorded change, i.e. the "before" of the next one */
+  private currentSnapshot: string;
+  private history = new EditHistory();
+
+  private isActive = false;
+  private hotspotEditor: HotspotEditor | null = null;
+  private tourPanel: HTMLElement | null = null;
+  /** Guided tour shown in the tour panel */
+  private selectedGuidedTourId: string | null = null;
+
+  constructor(options: TourEditorOptions) {
+    this.options = options;
+    this.viewer = options.viewer;
+    this.tour = cloneTour(options.tour);
+    this.savedSnapshot = JSON.stringify(this.tour);
+    this.currentSnapshot = this.savedSnapshot;
+
+    window.addEventListener('beforeunload', this.beforeUnloadHandler);
+  }
+
+  /**
+   * Activate editor mode for the panorama currently shown
+   */
+  activate(): void {
+    if (this.isActive) return;
+
+    const psvViewer = this.viewer.getViewer();
+    const markersPlugin = this.viewer.getMarkersPlugin();
+    const panorama = this.getCurrentPanorama();
+
+    if (!psvViewer || !markersPlugin || !panorama) {
+      console.warn('Cannot initialize editor: viewer not ready');
+      return;
+    }
+
+    this.isActive = true;
+
+    // Let the viewer render the session data from now on
+    this.viewer.setEditorMode(true);
+    this.viewer.updateTour(this.tour);
+
+    const upload = this.options.uploadMedia;
+    this.hotspotEditor = new HotspotEditor({
+      viewer: psvViewer,
+      markersPlugin,
+      panorama,
+      getPanoramas: () => this.tour.panoramas,
+      onHotspotAdd: () => this.commit('Hotspot hinzufügen'),
+      onHotspotUpdate: (hotspot) => this.commit('Hotspot bearbeiten', undefined, `edit:${hotspot.id}`),
+      onHotspotMove: (hotspot) => this.commit('Hotspot verschieben', undefined, `move:${hotspot.id}`),
+      onHotspotDelete: () => this.commit('Hotspot löschen'),
+      onSave: () => this.save(),
+      onExport: () => this.downloadJson(),
+      onClose: () => this.deactivate(),
+      onUndo: () => this.undo(),
+      onRedo: () => this.redo(),
+      uploadMedia: upload && ((file, onProgress) => upload(this.tour.id, file, onProgress)),
+    });
+    this.hotspotEditor.activate();
+    this.updateHistoryButtons();
+
+    this.createTourPanel();
+  }
+
+  /**
+   * Deactivate editor mode (unsaved changes are kept for the next activation)
+   */
+  deactivate(): void {
+    if (!this.isActive) return;
+    this.isActive = false;
+
+    this.hotspotEditor?.deactivate();
+    this.hotspotEditor = null;
+    this.removeTourPanel();
+
+    // Sync links and markers with the edited data
+    this.viewer.updateTour(this.tour);
+    this.viewer.setEditorMode(false);
+  }
+
+  /**
+   * Toggle editor mode
+   */
+  toggle(): void {
+    if (this.isActive) {
+      this.deactivate();
+    } else {
+      this.activate();
+    }
+  }
+
+  /**
+   * Check if editor is active
+   */
+  getIsActive(): boolean {
+    return this.isActive;
+  }
+
+  /**
+   * Get the edited tour
+   */
+  getTour(): Tour {
+    return this.tour;
+  }
+
+  /**
+   * Check for changes since the last save
+   */
+  isDirty(): boolean {
+    return JSON.stringify(this.tour) !== this.savedSnapshot;
+  }
+
+  /**
+   * Must be called when the viewer switches panorama
+   */
+  handlePanoramaChange(panoramaId: string): void {
+    if (!this.isActive) return;
+
+    const panorama = this.tour.panoramas.find((p) => p.id === panoramaId);
+    if (panorama) {
+      this.hotspotEditor?.setPanorama(panorama);
+    }
+    this.renderTourPanel();
+  }
+
+  /**
+   * Export the whole tour as JSON
+   */
+  exportJson(): string {
+    return JSON.stringify(this.tour, null, 2);
+  }
+
+  /**
+   * Stop tracking the session (removes the unsaved-changes warning)
+   */
+  destroy(): void {
+    this.deactivate();
+    window.removeEventListener('beforeunload', this.beforeUnloadHandler);
+  }
+
+  // ==========================================
+  // Panorama Management
+  // ==========================================
+
+  /**
+   * Add a panorama to the end of the tour
+   */
+  addPanorama(name: string, images: PanoramaImages): Panorama {
+    const panorama: Panorama = {
+      id: createId('pano'),
+      name,
+      images,
+      initialView: { ...DEFAULT_VIEW_POSITION },
+      hotspots: [],
+    };
+
+    this.tour.panoramas.push(panorama);
+    this.commit('Panorama hinzufügen');
+    return panorama;
+  }
+
+  /**
+   * Remove a panorama (a tour always keeps at least one)
+   */
+  removePanorama(panoramaId: string): boolean {
+    if (this.tour.panoramas.length <= 1) return false;
+
+    const index = this.tour.panoramas.findIndex((p) => p.id === panoramaId);
+    if (index === -1) return false;
+
+    this.tour.panoramas.splice(index, 1);
+    // Steps cannot play without their panorama
+    this.tour.guidedTours?.forEach((guidedTour) => {
+      guidedTour.steps = guidedTour.steps.filter((step) => step.panoramaId !== panoramaId);
+    });
+    this.commit('Panorama entfernen');
+    return true;
+  }
+
+  /**
+   * Move a panorama up (-1) or down (1) in the tour order
+   */
+  movePanorama(panoramaId: string, direction: -1 | 1): void {
+    const panoramas = this.tour.panoramas;
+    const index = panoramas.findIndex((p) => p.id === panoramaId);
+    const target = index + direction;
+    if (index === -1 || target < 0 || target >= panoramas.length) return;
+
+    [panoramas[index], panoramas[target]] = [panoramas[target], panoramas[index]];
+    this.commit('Reihenfolge ändern');
+  }
+
+  renamePanorama(panoramaId: string, name: string): void {
+    const panorama = this.tour.panoramas.find((p) => p.id === panoramaId);
+    if (!panorama || !name.trim()) return;
+
+    panorama.name = name.trim();
+    this.commit('Panorama umbenennen', panoramaId, `rename:${panoramaId}`);
+  }
+
+  setInitialView(panoramaId: string, view: ViewPosition): void {
+    const panorama = this.tour.panoramas.find((p) => p.id === panoramaId);
+    if (!panorama) return;
+
+    panorama.initialView = { ...view };
+    this.commit('Startansicht ändern', panoramaId, `initial-view:${panoramaId}`);
+  }
+
+  /**
+   * Use the current camera as start view of the current panorama
+   */
+  captureInitialView(): void {
+    const view = this.viewer.getViewState();
+    if (!view) return;
+
+    this.setInitialView(view.pano, roundView(view));
+  }
+
+  setTourName(name: string): void {
+    if (!name.trim()) return;
+
+    this.tour.name = name.trim();
+    this.commit('Tour umbenennen', undefined, 'tour-name');
+  }
+
+  // ==========================================
+  // Guided Tours
+  // ==========================================
+
+  addGuidedTour(name: string): GuidedTour {
+    const guidedTour: GuidedTour = {
+      id: createId('guided'),
+      name: name.trim() || 'Geführte Tour',
+      steps: [],
+    };
+
+    this.tour.guidedTours = [...(this.tour.guidedTours ?? []), guidedTour];
+    this.selectedGuidedTourId = guidedTour.id;
+    this.commit('Geführte Tour hinzufügen');
+    return guidedTour;
+  }
+
+  removeGuidedTour(guidedTourId: string): void {
+    const guidedTours = this.tour.guidedTours ?? [];
+    if (!guidedTours.some((t) => t.id === guidedTourId)) return;
+
+    this.tour.guidedTours = guidedTours.filter((t) => t.id !== guidedTourId);
+    this.selectedGuidedTourId = null;
+    this.commit('Geführte Tour entfernen');
+  }
+
+  renameGuidedTour(guidedTourId: string, name: string): void {
+    const guidedTour = this.findGuidedTour(guidedTourId);
+    if (!guidedTour || !name.trim()) return;
+
+    guidedTour.name = name.trim();
+    this.commit('Geführte Tour umbenennen');
+  }
+
+  /**
+   * Append the current panorama and camera as a keyframe
+   */
+  captureGuidedTourStep(guidedTourId: string): GuidedTourStep | undefined {
+    const guidedTour = this.findGuidedTour(guidedTourId);
+    const view = this.viewer.getViewState();
+    if (!guidedTour || !view) return undefined;
+
+    const step: GuidedTourStep = {
+      id: createId('step'),
+      panoramaId: view.pano,
+      view: roundView(view),
+      duration: 2,
+    };
+
+    guidedTour.steps.push(step);
+    this.commit('Schritt aufnehmen');
+    return step;
+  }
+
+  /**
+   * Replace a step's keyframe with the current panorama and camera
+   */
+  recaptureGuidedTourStep(guidedTourId: string, stepId: string): void {
+    const step = this.findGuidedTour(guidedTourId)?.steps.find((s) => s.id === stepId);
+    const view = this.viewer.getViewState();
+    if (!step || !view) return;
+
+    // Hotspots belong to the old panorama
+    if (step.panoramaId !== view.pano) delete step.hotspotId;
+    step.panoramaId = view.pano;
+    step.view = roundView(view);
+    this.commit('Schritt neu aufnehmen');
+  }
+
+  updateGuidedTourStep(
+    guidedTourId: string,
+    stepId: string,
+    changes: Partial<Pick<GuidedTourStep, 'caption' | 'duration' | 'hold' | 'hotspotId'>>
+  ): void {
+    const step = this.findGuidedTour(guidedTourId)?.steps.find((s) => s.id === stepId);
+    if (!step) return;
+
+    Object.assign(step, changes);
+    // Keep the JSON free of empty optional fields
+    (['caption', 'hold', 'hotspotId'] as const).forEach((key) => {
+      if (step[key] === undefined || step[key] === '') delete step[key];
+    });
+    this.commit('Schritt bearbeiten', undefined, `step:${stepId}`);
+  }
+
+  moveGuidedTourStep(guidedTourId: string, stepId: string, direction: -1 | 1): void {
+    const steps = this.findGuidedTour(guidedTourId)?.steps;
+    const index = steps?.findIndex((s) => s.id === stepId) ?? -1;
+    const target = index + direction;
+    if (!steps || index === -1 || target < 0 || target >= steps.length) return;
+
+    [steps[index], steps[target]] = [steps[target], steps[index]];
+    this.commit('Schritte umsortieren');
+  }
+
+  removeGuidedTourStep(guidedTourId: string, stepId: string): void {
+    const guidedTour = this.findGuidedTour(guidedTourId);
+    if (!guidedTour?.steps.some((s) => s.id === stepId)) return;
+
+    guidedTour.steps = guidedTour.steps.filter((s) => s.id !== stepId);
+    this.commit('Schritt entfernen');
+  }
+
+  /**
+   * Show a step's keyframe in the viewer
+   */
+  previewGuidedTourStep(guidedTourId: string, stepId: string): void {
+    const step = this.findGuidedTour(guidedTourId)?.steps.find((s) => s.id === stepId);
+    if (!step) return;
+
+    void this.viewer.setViewState({ pano: step.panoramaId, ...step.view });
+  }
+
+  private findGuidedTour(guidedTourId: string): GuidedTour | undefined {
+    return this.tour.guidedTours?.find((t) => t.id === guidedTourId);
+  }
+
+  /**
+   * Revert to the last saved state
+   */
+  discardChanges(): void {
+    // Recorded like any other change, so discarding can be undone
+    this.history.record({ label: 'Änderungen verwerfen', snapshot: this.currentSnapshot });
+    this.restoreSnapshot(this.savedSnapshot);
+  }
+
+  // ==========================================
+  // Undo / Redo
+  // ==========================================
+
+  undo(): void {
+    const entry = this.history.undo(this.currentSnapshot);
+    if (entry) this.restoreSnapshot(entry.snapshot, entry.panoramaId);
+  }
+
+  redo(): void {
+    const entry = this.history.redo(this.currentSnapshot);
+    if (entry) this.restoreSnapshot(entry.snapshot, entry.panoramaId);
+  }
+
+  /**
+   * Record the change just made (the previous state becomes an undo step)
+   * @param mergeKey quick successive changes with the same key become one step
+   */
+  private commit(label: string, panoramaId = this.viewer.getState().currentPanorama ?? undefined, mergeKey?: string): void {
+    const snapshot = JSON.stringify(this.tour);
+    if (snapshot === this.currentSnapshot) return;
+
+    this.history.record({ label, snapshot: this.currentSnapshot, panoramaId, mergeKey });
+    this.currentSnapshot = snapshot;
+
+    // Keep the virtual tour graph in sync (links, names, panoramas)
+    this.viewer.updateTour(this.tour);
+    this.updateDirtyState();
+  }
+
+  /**
+   * Replace the session with a serialized state and resync viewer and markers
+   */
+  private restoreSnapshot(snapshot: string, panoramaId?: string): void {
+    // ID and timestamps belong to the stored tour, not to the undoable state
+    const { id, createdAt, updatedAt } = this.tour;
+    this.tour = { ...(JSON.parse(snapshot) as Tour), id, createdAt, updatedAt };
+    this.currentSnapshot = JSON.stringify(this.tour);
+    this.viewer.updateTour(this.tour);
+
+    const panorama = this.getCurrentPanorama();
+    if (panorama) {
+      this.hotspotEditor?.setPanorama(panorama);
+    }
+
+    // Show where the change happened
+    const currentId = this.viewer.getState().currentPanorama;
+    if (panoramaId && panoramaId !== currentId && this.tour.panoramas.some((p) => p.id === panoramaId)) {
+      void this.viewer.goToPanorama(panoramaId).catch((error) => {
+        console.warn(`Could not open panorama "${panoramaId}":`, error);
+      });
+    }
+
+    this.updateDirtyState();
+  }
+
+  private updateHistoryButtons(): void {
+    this.hotspotEditor?.setHistoryState(this.history.peekUndo(), this.history.peekRedo());
+  }
+
+  private getCurrentPanorama(): Panorama | undefined {
+    const currentId = this.viewer.getState().currentPanorama;
+    return this.tour.panoramas.find((p) => p.id === currentId) ?? this.tour.panoramas[0];
+  }
+
+  // ==========================================
+  // Tour Panel
+  // ==========================================
+
+  private createTourPanel(): void {
+    this.tourPanel = document.createElement('div');
+    this.tourPanel.className = 'tour-panel';
+    document.body.appendChild(this.tourPanel);
+
+    this.tourPanel.addEventListener('click', this.panelClickHandler);
+    this.tourPanel.addEventListener('change', this.panelChangeHandler);
+    this.tourPanel.addEventListener('submit', this.panelSubmitHandler);
+
+    this.renderTourPanel();
+  }
+
+  private removeTourPanel(): void {
+    this.tourPanel?.remove();
+    this.tourPanel = null;
+  }
+
+  private renderTourPanel(): void {
+    if (!this.tourPanel) return;
+
+    const currentId = this.viewer.getState().currentPanorama;
+    const current = this.getCurrentPanorama();
+    const view = current?.initialView ?? DEFAULT_VIEW_POSITION;
+
+    const issues = findLinkIssues(this.tour);
+    const brokenPanoramas = new Set(issues.map((issue) => issue.panoramaId));
+
+    const items = this.tour.panoramas.map((panorama, index) => `
+      <li class="panorama-item ${panorama.id === currentId ? 'current' : ''} ${brokenPanoramas.has(panorama.id) ? 'has-issues' : ''}" data-panorama-id="${escapeHtml(panorama.id)}">
+        <img class="panorama-thumb" src="${escapeHtml(panorama.images.low || panorama.images.medium)}" alt="" loading="lazy" />
+        <input type="text" class="panorama-name" value="${escapeHtml(panorama.name)}" />
+        <div class="panorama-item-actions">
+          <button type="button" data-action="move-up" title="Nach oben" ${index === 0 ? 'disabled' : ''}>↑</button>
+          <button type="button" data-action="move-down" title="Nach unten" ${index === this.tour.panoramas.length - 1 ? 'disabled' : ''}>↓</button>
+          <button type="button" data-action="remove" title="Entfernen" ${this.tour.panoramas.length <= 1 ? 'disabled' : ''}>✕</button>
+        </div>
+      </li>
+    `).join('');
+
+    this.tourPanel.innerHTML = `
+      <div class="panel-header">
+        <h3>Tour</h3>
+        <span class="tour-dirty-indicator ${this.isDirty() ? 'visible' : ''}">Ungespeichert</span>
+      </div>
+      <div class="panel-content">
+        <div class="form-group">
+          <label>Tour-Name</label>
+          <input type="text" name="tourName" value="${escapeHtml(this.tour.name)}" />
+        </div>
+
+        <div class="form-group">
+          <label>Panoramen</label>
+          <ul class="panorama-list">${items}</ul>
+        </div>
+
+        ${issues.length > 0 ? `
+          <div class="form-group">
+            <label>Fehlerhafte Verknüpfungen</label>
+            <ul class="link-issues">
+              ${issues.map((issue) => `
+                <li class="panorama-item" data-panorama-id="${escapeHtml(issue.panoramaId)}">${escapeHtml(issue.message)}</li>
+              `).join('')}
+            </ul>
+          </div>
+        ` : ''}
+
+        <form class="hotspot-form" id="initialViewForm">
+          <label class="form-section-label">Startansicht: ${escapeHtml(current?.name ?? '')}</label>
+          <div class="form-row">
+            <div class="form-group">
+              <label>Yaw</label>
+              <input type="number" name="yaw" step="0.1" min="-180" max="180" value="${view.yaw}" />
+            </div>
+            <div class="form-group">
+              <label>Pitch</label>
+              <input type="number" name="pitch" step="0.1" min="-90" max="90" value="${view.pitch}" />
+            </div>
+            <div class="form-group">
+              <label>FOV</label>
+              <input type="number" name="fov" step="1" min="${this.tour.settings.minFov}" max="${this.tour.settings.maxFov}" value="${view.fov}" />
+            </div>
+          </div>
+          <div class="form-actions">
+            <button type="submit" class="btn-primary">Übernehmen</button>
+            <button type="button" class="btn-secondary" data-action="initial-view-capture">Aktuelle Ansicht</button>
+          </div>
+        </form>
+
+        ${this.renderGuidedTourSection()}
+
+        <form class="hotspot-form" id="addPanoramaForm">
+          <label class="form-section-label">Panorama hinzufügen</label>
+          <div class="form-group">
+            <input type="text" name="name" placeholder="Name" required />
+          </div>
+          <div class="form-group">
+            <input type="url" name="image" placeholder="Bild-URL (https://...)" required />
+          </div>
+          <div class="form-actions">
+            <button type="submit" class="btn-primary">Hinzufügen</button>
+          </div>
+        </form>
+
+        <div class="form-actions">
+          <button type="button" class="btn-secondary" data-action="discard" ${this.isDirty() ? '' : 'disabled'}>
+            Änderungen verwerfen
+          </button>
+        </div>
+      </div>
+    `;
+  }
+
+  private renderGuidedTourSection(): string {
+    const guidedTours = this.tour.guidedTours ?? [];
+    const selected = guidedTours.find((t) => t.id === this.selectedGuidedTourId) ?? guidedTours[0];
+    const panoramas = new Map(this.tour.panoramas.map((p) => [p.id, p]));
+
+    const steps = selected?.steps.map((step, index) => {
+      const panorama = panoramas.get(step.panoramaId);
+      const infoHotspots = panorama?.hotspots.filter((h) => h.type === 'info') ?? [];
+
+      return `
+        <li class="guided-tour-step" data-step-id="${escapeHtml(step.id)}">
+          <div class="guided-tour-step-header">
+            <span class="guided-tour-step-title">
+              ${index + 1}. ${escapeHtml(panorama?.name ?? step.panoramaId)}
+              <small>${step.view.yaw}° / ${step.view.pitch}° / ${step.view.fov}°</small>
+            </span>
+            <div class="panorama-item-actions">
+              <button type="button" data-action="step-preview" title="Anzeigen">👁</button>
+              <button type="button" data-action="step-recapture" title="Aktuelle Ansicht übernehmen">⌖</button>
+              <button type="button" data-action="step-up" title="Nach oben" ${index === 0 ? 'disabled' : ''}>↑</button>
+              <button type="button" data-action="step-down" title="Nach unten" ${index === selected.steps.length - 1 ? 'disabled' : ''}>↓</button>
+              <button type="button" data-action="step-remove" title="Entfernen">✕</button>
+            </div>
+          </div>
+          <div class="form-group">
+            <textarea name="stepCaption" rows="2" placeholder="Erzähltext">${escapeHtml(step.caption ?? '')}</textarea>
+          </div>
+          <div class="form-row">
+            <div class="form-group">
+              <label>Animation (s)</label>
+              <input type="number" name="stepDuration" min="0" max="60" step="0.5" value="${step.duration}" />
+            </div>
+            <div class="form-group">
+              <label>Verweilen (s)</label>
+              <input type="number" name="stepHold" min="0" max="120" step="0.5" placeholder="4" value="${step.hold ?? ''}" />
+            </div>
+          </div>
+          <div class="form-group">
+            <select name="stepHotspot" aria-label="Info-Hotspot öffnen">
+              <option value="">Kein Info-Hotspot</option>
+              ${infoHotspots.map((h) => `
+                <option value="${escapeHtml(h.id)}" ${h.id === step.hotspotId ? 'selected' : ''}>
+                  ${escapeHtml(h.tooltip || h.content.title || h.id)}
+                </option>
+              `).join('')}
+            </select>
+          </div>
+        </li>
+      `;
+    }).join('') ?? '';
+
+    return `
+      <div class="form-group guided-tour-editor" data-guided-tour-id="${escapeHtml(selected?.id ?? '')}">
+        <label>Geführte Touren</label>
+        <div class="form-row">
+          <select name="guidedTour" ${guidedTours.length === 0 ? 'disabled' : ''}>
+            ${guidedTours.length === 0 ? '<option>Keine geführte Tour</option>' : ''}
+            ${guidedTours.map((t) => `
+              <option value="${escapeHtml(t.id)}" ${t.id === selected?.id ? 'selected' : ''}>${escapeHtml(t.name)}</option>
+            `).join('')}
+          </select>
+          <div class="panorama-item-actions">
+            <button type="button" data-action="guided-tour-add" title="Neue geführte Tour">+</button>
+            <button type="button" data-action="guided-tour-remove" title="Geführte Tour entfernen" ${selected ? '' : 'disabled'}>✕</button>
+          </div>
+        </div>
+        ${selected ? `
+          <input type="text" name="guidedTourName" value="${escapeHtml(selected.name)}" aria-label="Name der geführten Tour" />
+          <ol class="guided-tour-steps">${steps}</ol>
+          <div class="form-actions">
+            <button type="button" class="btn-primary" data-action="step-capture">Aktuelle Ansicht als Schritt</button>
+          </div>
+        ` : ''}
+      </div>
+    `;
+  }
+
+  private updateDirtyState(): void {
+    this.renderTourPanel();
+    this.updateHistoryButtons();
+  }
+
+  private panelClickHandler = (e: MouseEvent) => {
+    const target = e.target as HTMLElement;
+    const item = target.closest<HTMLElement>('.panorama-item');
+    const panoramaId = item?.dataset.panoramaId;
+    const action = target.closest<HTMLElement>('[data-action]')?.dataset.action;
+
+    if (action === 'discard') {
+      if (confirm('Alle ungespeicherten Änderungen verwerfen?')) {
+        this.discardChanges();
+      }
+      return;
+    }
+
+    if (action === 'initial-view-capture') {
+      this.captureInitialView();
+      return;
+    }
+
+    if (action?.startsWith('guided-tour-') || action?.startsWith('step-')) {
+      this.handleGuidedTourAction(action, target);
+      return;
+    }
+
+    if (!panoramaId) return;
+
+    switch (action) {
+      case 'move-up':
+        this.movePanorama(panoramaId, -1);
+        break;
+      case 'move-down':
+        this.movePanorama(panoramaId, 1);
+        break;
+      case 'remove': {
+        const panorama = this.tour.panoramas.find((p) => p.id === panoramaId);
+        if (panorama && confirm(`Panorama "${panorama.name}" entfernen?`)) {
+          this.removePanorama(panoramaId);
+        }
+        break;
+      }
+      default:
+        // Click on the row: show this panorama
+        if (!(target instanceof HTMLInputElement) && panoramaId !== this.viewer.getState().currentPanorama) {
+          void this.viewer.goToPanorama(panoramaId).catch((error) => {
+            console.error(`Could not open panorama "${panoramaId}":`, error);
+            alert('Das Panorama konnte nicht geladen werden.');
+          });
+        }
+    }
+  };
+
+  private handleGuidedTourAction(action: string, target: HTMLElement): void {
+    const guidedTourId = target.closest<HTMLElement>('.guided-tour-editor')?.dataset.guidedTourId;
+    const stepId = target.closest<HTMLElement>('.guided-tour-step')?.dataset.stepId;
+
+    if (action === 'guided-tour-add') {
+      const name = prompt('Name der geführten Tour', 'Geführte Tour');
+      if (name !== null) this.addGuidedTour(name);
+      return;
+    }
+    if (!guidedTourId) return;
+
+    if (action === 'guided-tour-remove') {
+      const guidedTour = this.findGuidedTour(guidedTourId);
+      if (guidedTour && confirm(`Geführte Tour "${guidedTour.name}" entfernen?`)) {
+        this.removeGuidedTour(guidedTourId);
+      }
+      return;
+    }
+    if (action === 'step-capture') {
+      this.captureGuidedTourStep(guidedTourId);
+      return;
+    }
+    if (!stepId) return;
+
+    switch (action) {
+      case 'step-preview':
+        this.previewGuidedTourStep(guidedTourId, stepId);
+        break;
+      case 'step-recapture':
+        this.recaptureGuidedTourStep(guidedTourId, stepId);
+        break;
+      case 'step-up':
+        this.moveGuidedTourStep(guidedTourId, stepId, -1);
+        break;
+      case 'step-down':
+        this.moveGuidedTourStep(guidedTourId, stepId, 1);
+        break;
+      case 'step-remove':
+        this.removeGuidedTourStep(guidedTourId, stepId);
+        break;
+    }
+  }
+
+  private panelChangeHandler = (e: Event) => {
+    const target = e.target as HTMLInputElement;
+    const guidedTourId = target.closest<HTMLElement>('.guided-tour-editor')?.dataset.guidedTourId;
+    const stepId = target.closest<HTMLElement>('.guided-tour-step')?.dataset.stepId;
+
+    if (target.name === 'guidedTour') {
+      this.selectedGuidedTourId = target.value;
+      this.renderTourPanel();
+      return;
+    }
+    if (guidedTourId && target.name === 'guidedTourName') {
+      this.renameGuidedTour(guidedTourId, target.value);
+      return;
+    }
+    if (guidedTourId && stepId) {
+      switch (target.name) {
+        case 'stepCaption':
+          this.updateGuidedTourStep(guidedTourId, stepId, { caption: target.value.trim() });
+          break;
+        case 'stepDuration':
+          this.updateGuidedTourStep(guidedTourId, stepId, { duration: Math.max(0, Number(target.value) || 0) });
+          break;
+        case 'stepHold':
+          this.updateGuidedTourStep(guidedTourId, stepId, {
+            hold: target.value === '' ? undefined : Math.max(0, Number(target.value) || 0),
+          });
+          break;
+        case 'stepHotspot':
+          this.updateGuidedTourStep(guidedTourId, stepId, { hotspotId: target.value || undefined });
+          break;
+      }
+      return;
+    }
+
+    if (target.name === 'tourName') {
+      this.setTourName(target.value);
+    } else if (target.classList.contains('panorama-name')) {
+      const panoramaId = target.closest<HTMLElement>('.panorama-item')?.dataset.panoramaId;
+      if (panoramaId) this.renamePanorama(panoramaId, target.value);
+    }
+  };
+
+  private panelSubmitHandler = (e: SubmitEvent) => {
+    e.preventDefault();
+    const form = e.target as HTMLFormElement;
+    const formData = new FormData(form);
+
+    if (form.id === 'initialViewForm') {
+      const panorama = this.getCurrentPanorama();
+      if (!panorama) return;
+      this.setInitialView(panorama.id, {
+        yaw: Number(formData.get('yaw')),
+        pitch: Number(formData.get('pitch')),
+        fov: Number(formData.get('fov')),
+      });
+    } else if (form.id === 'addPanoramaForm') {
+      const image = formData.get('image') as string;
+      this.addPanorama(formData.get('name') as string, {
+        high: image,
+        medium: image,
+        low: image,
+      });
+    }
+  };
+
+  // ==========================================
+  // Save & Export
+  // ==========================================
+
+  /**
+   * Save the whole tour; throws if the onSave callback fails.
+   * Resolves with false if the author cancels because of broken links.
+   */
+  async save(): Promise<boolean> {
+    const issues = findLinkIssues(this.tour);
+    if (issues.length > 0) {
+      const list = issues.map((issue) => `- ${issue.message}`).join('\n');
+      if (!confirm(`Fehlerhafte Verknüpfungen:\n${list}\n\nTrotzdem speichern?`)) {
+        return false;
+      }
+    }
+
+    const saved = await this.options.onSave?.(this.tour);
+    if (saved) {
+      // The server assigns the ID of a newly created tour
+      this.tour.id = saved.id;
+      this.tour.createdAt = saved.createdAt;
+      this.tour.updatedAt = saved.updatedAt;
+    }
+
+    this.savedSnapshot = JSON.stringify(this.tour);
+    this.currentSnapshot = this.savedSnapshot;
+    this.updateDirtyState();
+    return true;
+  }
+
+  private downloadJson(): void {
+    const json = this.exportJson();
+    const blob = new Blob([json], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${this.tour.id || 'tour'}-config.json`;
+    a.click();
+
+    URL.revokeObjectURL(url);
+  }
+
+  private beforeUnloadHandler = (e: BeforeUnloadEvent) => {
+    if (this.isDirty()) {
+      e.preventDefault();
+      e.returnValue = '';
+    }
+  };
+}
+
+function createId(prefix: string): string {
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+}
+
+/**
+ * Keyframe with one decimal, like the start view inputs
+ */
+function roundView(view: ViewPosition): ViewPosition {
+  const round = (value: number) => Math.round(value * 10) / 10;
+  return { yaw: round(view.yaw), pitch: round(view.pitch), fov: round(view.fov) };
+}
+
+/**
+ * Deep copy so edits never leak into the original tour object
+ */
+function cloneTour(tour: Tour): Tour {
+  return JSON.parse(JSON.stringify(tour)) as Tour;
+}
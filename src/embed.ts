@@ -0,0 +1,122 @@
+/**
+ * Embed Page Entry Point
+ * Chrome-less viewer for iframes on customer sites (no editor, no sharing)
+ *
+ * URL parameters:
+ * - tour=<id>     Tour to show (required)
+ * - autoplay=1    Start the auto-tour once the panorama is displayed
+ * - controls=0    Hide the zoom/fullscreen buttons
+ * - #pano=…&yaw=…  Start view (see utils/viewState)
+ */
+
+import { TourViewer } from './viewer/TourViewer';
+import { EmbedBridge } from './viewer/EmbedBridge';
+import { fetchTour } from './utils/tourApi';
+import { hideLoading, showLoadingMessage } from './utils/loadingState';
+import { parseViewState } from './utils/viewState';
+import type { Tour } from './types';
+import './styles/main.css';
+
+let viewer: TourViewer | null = null;
+let bridge: EmbedBridge | null = null;
+
+async function init() {
+  const params = new URLSearchParams(window.location.search);
+  const tourId = params.get('tour');
+
+  if (!tourId) {
+    showLoadingMessage('Keine Tour angegeben');
+    return;
+  }
+
+  let tour: Tour | null;
+  try {
+    tour = await fetchTour(tourId);
+  } catch (error) {
+    console.error('Failed to load tour:', error);
+    showLoadingMessage(
+      'Fehler beim Laden der Tour',
+      error instanceof Error ? error.message : 'Unbekannter Fehler'
+    );
+    return;
+  }
+
+  if (!tour) {
+    showLoadingMessage('Tour nicht gefunden');
+    return;
+  }
+  if (tour.panoramas.length === 0) {
+    showLoadingMessage('Diese Tour enthält noch keine Panoramen');
+    return;
+  }
+
+  document.title = tour.name;
+  setupControls(tour, params.get('controls') !== '0');
+
+  const autoplay = params.get('autoplay') === '1';
+
+  try {
+    viewer = new TourViewer({
+      container: '#viewer',
+      tour,
+      initialView: parseViewState(window.location.hash) ?? undefined,
+      onReady: () => {
+        hideLoading();
+        if (autoplay) {
+          viewer?.startAutoTour();
+        }
+        bridge?.notifyReady();
+      },
+      onPanoramaChange: (panoramaId) => {
+        bridge?.notifyPanoramaChange(panoramaId);
+      },
+      onHotspotClick: (hotspot) => {
+        bridge?.notifyHotspotClick(hotspot);
+      },
+    });
+
+    // Let the host page control the tour via postMessage
+    bridge = new EmbedBridge({
+      viewer,
+      allowedOrigins: tour.settings.embedAllowedOrigins,
+    });
+  } catch (error) {
+    console.error('Failed to initialize viewer:', error);
+    showLoadingMessage(
+      'Fehler beim Laden des Panoramas',
+      error instanceof Error ? error.message : 'Unbekannter Fehler'
+    );
+  }
+}
+
+/**
+ * Wire up the embed controls, respecting ?controls=0 and the tour settings
+ */
+function setupControls(tour: Tour, showControls: boolean): void {
+  const controls = document.getElementById('controls');
+  if (!showControls || !tour.settings.showControls) {
+    controls?.remove();
+    return;
+  }
+
+  const fullscreenBtn = document.getElementById('fullscreen-btn');
+  if (tour.settings.allowFullscreen && document.fullscreenEnabled) {
+    fullscreenBtn?.addEventListener('click', () => {
+      viewer?.toggleFullscreen();
+    });
+  } else {
+    fullscreenBtn?.remove();
+  }
+
+  document.getElementById('zoom-in-btn')?.addEventListener('click', () => {
+    viewer?.zoomIn();
+  });
+
+  document.getElementById('zoom-out-btn')?.addEventListener('click', () => {
+    viewer?.zoomOut();
+  });
+}
+
+document.addEventListener('DOMContentLoaded', () => {
+  init();
+});
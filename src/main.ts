@@ -3,8 +3,13 @@
  */
 
 import { TourViewer } from './viewer/TourViewer';
-import { HotspotEditor } from './editor/HotspotEditor';
+import { TourEditor } from './editor/TourEditor';
 import { showEmbedModal } from './components/EmbedGenerator';
+import { GuidedTourBar } from './components/GuidedTourBar';
+import { createTour, fetchTour, saveTour } from './utils/tourApi';
+import { uploadMedia } from './utils/mediaApi';
+import { hideLoading, showLoadingMessage } from './utils/loadingState';
+import { parseViewState, serializeViewState } from './utils/viewState';
 import type { Tour } from './types';
 import './styles/main.css';
 import './styles/editor.css';
@@ -109,101 +114,212 @@ demoTour.panoramas[1].hotspots.push({
 
 // Initialize viewer and editor
 let viewer: TourViewer | null = null;
-let editor: HotspotEditor | null = null;
+let editor: TourEditor | null = null;
+let guidedTourBar: GuidedTourBar | null = null;
+/** Whether the tour was loaded from the API (local tours share fixed IDs) */
+let isStoredTour = false;
 
 async function init() {
-  const loadingEl = document.getElementById('loading');
-  
-  // Check for uploaded panorama in localStorage
-  const uploadedPanoramaStr = localStorage.getItem('uploadedPanorama');
-  let tourToUse = demoTour;
-  
-  if (uploadedPanoramaStr) {
+  const params = new URLSearchParams(window.location.search);
+  const tourId = params.get('tour');
+
+  let tourToUse: Tour;
+
+  if (tourId) {
+    // Shared link: load the tour from the API
     try {
-      const uploadedPanorama = JSON.parse(uploadedPanoramaStr);
-      console.log('📷 Using uploaded panorama:', uploadedPanorama.id);
-      tourToUse = {
-        ...demoTour,
-        id: 'uploaded-tour',
-        name: 'Hochgeladene Tour',
-        panoramas: [uploadedPanorama],
-      };
-      // Clear after use
-      localStorage.removeItem('uploadedPanorama');
-    } catch (e) {
-      console.warn('Could not parse uploaded panorama:', e);
+      const tour = await fetchTour(tourId);
+      if (!tour) {
+        showLoadingMessage(
+          'Tour nicht gefunden',
+          'Der Link ist ungültig oder die Tour wurde gelöscht.'
+        );
+        return;
+      }
+      tourToUse = tour;
+      isStoredTour = true;
+    } catch (error) {
+      console.error('Failed to load tour:', error);
+      showLoadingMessage(
+        'Fehler beim Laden der Tour',
+        error instanceof Error ? error.message : 'Unbekannter Fehler'
+      );
+      return;
     }
+  } else {
+    tourToUse = getLocalTour();
+  }
+
+  if (tourToUse.panoramas.length === 0) {
+    showLoadingMessage('Diese Tour enthält noch keine Panoramen');
+    return;
+  }
+
+  document.title = `${tourToUse.name} - 360° Panorama Viewer`;
+
+  if (params.get('fullscreen') === '1') {
+    requestFullscreenOnInteraction();
   }
-  
+
   try {
+    const syncViewToHash = tourToUse.settings.syncViewToHash !== false;
+
     viewer = new TourViewer({
       container: '#viewer',
       tour: tourToUse,
+      initialView: parseViewState(window.location.hash) ?? undefined,
+      onViewChange: (view) => {
+        if (syncViewToHash) {
+          history.replaceState(null, '', `#${serializeViewState(view)}`);
+        }
+      },
       onReady: () => {
         console.log('🌐 360° Viewer ready');
-        loadingEl?.classList.add('hidden');
+        hideLoading();
+        updateGuidedTourButton();
       },
       onPanoramaChange: (panoramaId) => {
         console.log(`📍 Switched to panorama: ${panoramaId}`);
-        // Re-initialize editor for new panorama if active
-        if (editor?.getIsActive()) {
-          initEditor();
-        }
+        // Keep editing the same session on the new panorama
+        editor?.handlePanoramaChange(panoramaId);
       },
       onHotspotClick: (hotspot) => {
         console.log(`🔵 Hotspot clicked:`, hotspot);
       },
+      onAutoTourChange: (state) => {
+        const button = document.getElementById('autotour-btn');
+        button?.classList.toggle('is-active', state === 'running');
+        button?.classList.toggle('is-paused', state === 'paused');
+      },
     });
   } catch (error) {
     console.error('Failed to initialize viewer:', error);
-    if (loadingEl) {
-      loadingEl.innerHTML = `
-        <div style="text-align: center; color: var(--color-text-muted);">
-          <p>Fehler beim Laden des Panoramas</p>
-          <small>${error instanceof Error ? error.message : 'Unbekannter Fehler'}</small>
-        </div>
-      `;
-    }
+    showLoadingMessage(
+      'Fehler beim Laden des Panoramas',
+      error instanceof Error ? error.message : 'Unbekannter Fehler'
+    );
   }
 }
 
-function initEditor() {
-  if (!viewer) return;
-  
-  const psvViewer = viewer.getViewer();
-  const markersPlugin = viewer.getMarkersPlugin();
-  const panorama = viewer.getCurrentPanorama();
-  
-  if (!psvViewer || !markersPlugin || !panorama) {
-    console.warn('Cannot initialize editor: viewer not ready');
+/**
+ * Tour used without a ?tour= parameter: the last local upload or the demo
+ */
+function getLocalTour(): Tour {
+  // Check for uploaded panorama in localStorage
+  const uploadedPanoramaStr = localStorage.getItem('uploadedPanorama');
+  if (!uploadedPanoramaStr) return demoTour;
+
+  try {
+    const uploadedPanorama = JSON.parse(uploadedPanoramaStr);
+    console.log('📷 Using uploaded panorama:', uploadedPanorama.id);
+    return {
+      ...demoTour,
+      id: 'uploaded-tour',
+      name: 'Hochgeladene Tour',
+      panoramas: [uploadedPanorama],
+    };
+  } catch (e) {
+    console.warn('Could not parse uploaded panorama:', e);
+    return demoTour;
+  } finally {
+    // Clear after use
+    localStorage.removeItem('uploadedPanorama');
+  }
+}
+
+/**
+ * Browsers only allow fullscreen after a user gesture,
+ * so ?fullscreen=1 switches on the first interaction with the page
+ */
+function requestFullscreenOnInteraction(): void {
+  const enterFullscreen = () => {
+    if (viewer && !viewer.getState().isFullscreen) {
+      viewer.toggleFullscreen();
+    }
+  };
+  document.addEventListener('pointerdown', enterFullscreen, { once: true });
+}
+
+/**
+ * Guided tours of the (possibly edited) tour that have steps
+ */
+function getGuidedTours() {
+  return (viewer?.getTour()?.guidedTours ?? []).filter((t) => t.steps.length > 0);
+}
+
+function updateGuidedTourButton() {
+  const button = document.getElementById('guided-tour-btn');
+  if (button) button.hidden = getGuidedTours().length === 0;
+}
+
+/**
+ * Open the guided tour controls and start playing, or close them
+ */
+function toggleGuidedTour() {
+  if (guidedTourBar) {
+    guidedTourBar.destroy();
+    guidedTourBar = null;
     return;
   }
-  
-  // Destroy existing editor
-  editor?.deactivate();
-  
-  editor = new HotspotEditor({
-    viewer: psvViewer,
-    markersPlugin,
-    panorama,
-    onHotspotAdd: (hotspot) => {
-      console.log('➕ Hotspot added:', hotspot);
-    },
-    onHotspotUpdate: (hotspot) => {
-      console.log('✏️ Hotspot updated:', hotspot);
-    },
-    onHotspotDelete: (id) => {
-      console.log('🗑️ Hotspot deleted:', id);
-    },
-    onSave: (updatedPanorama) => {
-      console.log('💾 Panorama saved:', updatedPanorama);
-      // In production, this would save to the API
-      alert('Konfiguration gespeichert! (In der Konsole als JSON sichtbar)');
-      console.log('JSON:', JSON.stringify(updatedPanorama, null, 2));
+
+  const guidedTours = getGuidedTours();
+  if (!viewer || guidedTours.length === 0) return;
+
+  guidedTourBar = new GuidedTourBar({
+    viewer,
+    guidedTours,
+    onClose: () => {
+      guidedTourBar = null;
     },
   });
-  
-  editor.activate();
+  guidedTourBar.play();
+}
+
+/**
+ * Toggle the tour editor, keeping one editing session for the whole tour
+ */
+function toggleEditor() {
+  if (!viewer) return;
+
+  const tour = viewer.getTour();
+  if (!tour) return;
+
+  if (!editor) {
+    editor = new TourEditor({
+      viewer,
+      tour,
+      onSave: async (editedTour) => {
+        if (isStoredTour) {
+          const saved = await saveTour(editedTour);
+          console.log('💾 Tour saved:', saved.id);
+          return saved;
+        }
+
+        // Demo and uploads become a new tour with a server ID instead of overwriting a shared one
+        const created = await createTour({ ...editedTour, id: undefined });
+        isStoredTour = true;
+        const url = new URL(window.location.href);
+        url.searchParams.set('tour', created.id);
+        history.replaceState(null, '', url);
+        console.log('💾 Tour created:', created.id);
+        return created;
+      },
+      uploadMedia: (tourId, file, onProgress) => {
+        // Media live under the tour's blob prefix, which a local tour does not have yet
+        if (!isStoredTour) {
+          return Promise.reject(new Error('Bitte die Tour zuerst speichern'));
+        }
+        return uploadMedia(tourId, file, onProgress);
+      },
+    });
+  }
+
+  // Playback would move the camera while editing
+  guidedTourBar?.destroy();
+  guidedTourBar = null;
+
+  editor.toggle();
+  updateGuidedTourButton();
 }
 
 // Set up control buttons
@@ -222,18 +338,22 @@ function setupControls() {
 
   // Edit button
   document.getElementById('edit-btn')?.addEventListener('click', () => {
-    if (editor?.getIsActive()) {
-      editor.deactivate();
-    } else {
-      initEditor();
-    }
+    toggleEditor();
+  });
+
+  document.getElementById('autotour-btn')?.addEventListener('click', () => {
+    viewer?.toggleAutoTour();
+  });
+
+  document.getElementById('guided-tour-btn')?.addEventListener('click', () => {
+    toggleGuidedTour();
   });
 
   // Share button
   document.getElementById('share-btn')?.addEventListener('click', () => {
     const tour = viewer?.getTour();
     if (tour) {
-      showEmbedModal(tour.id, tour.name);
+      showEmbedModal(tour.id, tour.name, viewer?.getViewState() ?? undefined);
     }
   });
 
@@ -259,11 +379,11 @@ function setupControls() {
         break;
       case 'e':
       case 'E':
-        if (editor?.getIsActive()) {
-          editor.deactivate();
-        } else {
-          initEditor();
-        }
+        toggleEditor();
+        break;
+      case 'a':
+      case 'A':
+        viewer?.toggleAutoTour();
         break;
     }
   });
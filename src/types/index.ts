@@ -12,11 +12,24 @@ export interface Tour {
   description?: string;
   logo?: string;
   panoramas: Panorama[];
+  /** Scripted walkthroughs with camera keyframes and captions */
+  guidedTours?: GuidedTour[];
   settings: TourSettings;
   createdAt: string;
   updatedAt: string;
 }
 
+/** Entry of the tour list (GET /api/tours) */
+export interface TourSummary {
+  id: string;
+  name: string;
+  description?: string;
+  panoramaCount: number;
+  thumbnail?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
 export interface Panorama {
   id: string;
   name: string;
@@ -24,6 +37,8 @@ export interface Panorama {
   images: PanoramaImages;
   initialView: ViewPosition;
   hotspots: Hotspot[];
+  /** Capture metadata read from EXIF / XMP during upload */
+  metadata?: PanoramaMetadata;
 }
 
 export interface PanoramaImages {
@@ -33,6 +48,52 @@ export interface PanoramaImages {
   medium: string;
   /** Preview/Thumbnail (512x256) for fast loading */
   low: string;
+  /** Tile pyramid for deep zoom (only for sources larger than 4K) */
+  tiles?: PanoramaTiles;
+}
+
+export interface PanoramaTiles {
+  /** URL prefix, tiles are at `${baseUrl}/${level}/${col}_${row}.webp` */
+  baseUrl: string;
+  /** Ordered from small to large */
+  levels: PanoramaTileLevel[];
+}
+
+export interface PanoramaTileLevel {
+  /** Width of the full panorama at this level (height is width / 2) */
+  width: number;
+  cols: number;
+  rows: number;
+}
+
+export interface PanoramaMetadata {
+  /** Local capture time as ISO 8601 */
+  capturedAt?: string;
+  gps?: GpsPosition;
+  /** Compass heading of the image center in degrees (0 = north) */
+  heading?: number;
+  camera?: string;
+  /** Set for partial panoramas that do not cover the full sphere */
+  crop?: PanoramaCrop;
+}
+
+export interface GpsPosition {
+  latitude: number;
+  longitude: number;
+  /** Meters above sea level */
+  altitude?: number;
+}
+
+/**
+ * Position of a partial panorama in the full sphere (GPano, in original pixels)
+ */
+export interface PanoramaCrop {
+  fullWidth: number;
+  fullHeight: number;
+  croppedWidth: number;
+  croppedHeight: number;
+  croppedX: number;
+  croppedY: number;
 }
 
 export interface ViewPosition {
@@ -44,28 +105,55 @@ export interface ViewPosition {
   fov: number;
 }
 
+/**
+ * Shareable viewer state, serialized into deep links
+ */
+export interface ViewState extends ViewPosition {
+  /** Panorama ID */
+  pano: string;
+}
+
 // ==========================================
 // Hotspot Types
 // ==========================================
 
 export type HotspotType = 'navigation' | 'info';
 
+export type HotspotIcon = 'arrow' | 'door' | 'stairs' | 'info' | 'camera' | 'custom';
+
+export interface SphericalPoint {
+  /** Degrees (-180 to 180) */
+  yaw: number;
+  /** Degrees (-90 to 90) */
+  pitch: number;
+}
+
 export interface BaseHotspot {
   id: string;
   type: HotspotType;
-  position: {
-    yaw: number;
-    pitch: number;
-  };
+  /** Point hotspot position; for areas the centre of the outline */
+  position: SphericalPoint;
+  /** Outline of an area hotspot (at least 3 points), drawn instead of an icon */
+  area?: SphericalPoint[];
   tooltip?: string;
+  /** Icon (default: arrow for navigation, info for info hotspots) */
+  icon?: HotspotIcon;
+  /** Image (SVG/PNG URL or data URL) for the custom icon */
+  iconUrl?: string;
+  /** Hex colour, e.g. #6366f1 (default: accent colour) */
+  color?: string;
+  /** Size factor (0.5 to 3, default: 1) */
+  scale?: number;
 }
 
 export interface NavigationHotspot extends BaseHotspot {
   type: 'navigation';
   /** Target panorama ID */
   targetPanorama: string;
-  /** Optional rotation direction for arrow icon */
+  /** Rotation of the icon in degrees, clockwise (for directional arrows) */
   rotation?: number;
+  /** Camera in the target panorama; without it the view keeps the walking direction */
+  arrivalView?: ViewPosition;
 }
 
 export interface InfoHotspot extends BaseHotspot {
@@ -73,11 +161,31 @@ export interface InfoHotspot extends BaseHotspot {
   content: InfoContent;
 }
 
+/** Picture in the gallery of an info popup */
+export interface InfoImage {
+  url: string;
+  caption?: string;
+}
+
+/** Downloadable document, e.g. a PDF floor plan */
+export interface InfoDocument {
+  url: string;
+  title?: string;
+}
+
 export interface InfoContent {
   title?: string;
+  /** Markdown: paragraphs, lists, **bold**, *italic*, [links](https://...) */
   description?: string;
+  /** Single image, shown before the gallery images */
   image?: string;
+  /** Further images, shown as a gallery */
+  images?: InfoImage[];
+  /** Video file, YouTube or Vimeo link (embedded privacy-enhanced) */
   video?: string;
+  /** Audio clip, e.g. a spoken explanation */
+  audio?: string;
+  documents?: InfoDocument[];
   link?: {
     url: string;
     label?: string;
@@ -86,15 +194,56 @@ export interface InfoContent {
 
 export type Hotspot = NavigationHotspot | InfoHotspot;
 
+/** Media files uploaded for info hotspots (see api/media.ts) */
+export type MediaKind = 'image' | 'video' | 'audio' | 'document';
+
+export interface UploadedMedia {
+  kind: MediaKind;
+  url: string;
+  contentType: string;
+  /** Images only, after scaling */
+  width?: number;
+  height?: number;
+}
+
+// ==========================================
+// Guided Tour Types
+// ==========================================
+
+export interface GuidedTour {
+  id: string;
+  name: string;
+  steps: GuidedTourStep[];
+}
+
+export interface GuidedTourStep {
+  id: string;
+  panoramaId: string;
+  /** Camera keyframe the step animates to */
+  view: ViewPosition;
+  /** Camera animation in seconds (0 = cut) */
+  duration: number;
+  /** Time to stay at the keyframe after the animation in seconds (default: 4) */
+  hold?: number;
+  /** Info hotspot of the panorama to open on arrival */
+  hotspotId?: string;
+  /** Narration shown while the step plays */
+  caption?: string;
+}
+
 // ==========================================
 // Settings Types
 // ==========================================
 
+export type AutoTourOrder = 'sequence' | 'links';
+
 export interface TourSettings {
   /** Enable auto-tour mode */
   autoTour: boolean;
   /** Delay in seconds between panoramas in auto-tour */
   autoTourDelay: number;
+  /** Auto-tour order: tour order or along navigation links (default: sequence) */
+  autoTourOrder?: AutoTourOrder;
   /** Show control buttons */
   showControls: boolean;
   /** Allow fullscreen mode */
@@ -107,6 +256,10 @@ export interface TourSettings {
   minFov: number;
   /** Maximum field of view (max zoom out) */
   maxFov: number;
+  /** Keep the current view in the URL hash while looking around (default: true) */
+  syncViewToHash?: boolean;
+  /** Origins allowed to control an embedded tour via postMessage (any origin if unset) */
+  embedAllowedOrigins?: string[];
 }
 
 // ==========================================
@@ -3,6 +3,7 @@
  */
 
 import { UploadPanel } from './components/UploadPanel';
+import { getDefaultInitialView } from './utils/panoramaMetadata';
 import './styles/main.css';
 import './styles/upload.css';
 
@@ -94,8 +95,9 @@ const uploadPanel = new UploadPanel({
         id: result.panoramaId,
         name: 'Hochgeladenes Panorama',
         images: result.images,
-        initialView: { yaw: 0, pitch: 0, fov: 70 },
+        initialView: getDefaultInitialView(result.metadata),
         hotspots: [],
+        metadata: result.metadata,
       };
       localStorage.setItem('uploadedPanorama', JSON.stringify(panoramaConfig));
     }
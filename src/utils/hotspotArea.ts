@@ -0,0 +1,60 @@
+/**
+ * Hotspot Areas
+ * Geometry helpers for area hotspots outlined as spherical polygons (degrees)
+ */
+
+import type { Hotspot, SphericalPoint } from '../types';
+
+/** Fewer points cannot enclose an area */
+export const MIN_AREA_POINTS = 3;
+
+export function isAreaHotspot(hotspot: Hotspot): hotspot is Hotspot & { area: SphericalPoint[] } {
+  return Array.isArray(hotspot.area) && hotspot.area.length >= MIN_AREA_POINTS;
+}
+
+/**
+ * Yaw in -180..180
+ */
+export function normalizeYaw(yaw: number): number {
+  return ((((yaw + 180) % 360) + 360) % 360) - 180;
+}
+
+export function clampPitch(pitch: number): number {
+  return Math.max(-90, Math.min(90, pitch));
+}
+
+/**
+ * Centre of an outline; yaw is averaged relative to the first point,
+ * so outlines across the ±180° seam work
+ */
+export function getAreaCenter(points: SphericalPoint[]): SphericalPoint {
+  const origin = points[0].yaw;
+  const yawOffset = points.reduce((sum, p) => sum + normalizeYaw(p.yaw - origin), 0) / points.length;
+  const pitch = points.reduce((sum, p) => sum + p.pitch, 0) / points.length;
+
+  return { yaw: normalizeYaw(origin + yawOffset), pitch };
+}
+
+/**
+ * Rectangle between two opposite corners (along the shorter yaw arc)
+ */
+export function createRectArea(from: SphericalPoint, to: SphericalPoint): SphericalPoint[] {
+  const toYaw = from.yaw + normalizeYaw(to.yaw - from.yaw);
+
+  return [
+    { yaw: from.yaw, pitch: from.pitch },
+    { yaw: normalizeYaw(toYaw), pitch: from.pitch },
+    { yaw: normalizeYaw(toYaw), pitch: to.pitch },
+    { yaw: from.yaw, pitch: to.pitch },
+  ];
+}
+
+/**
+ * Move all points by the same angles
+ */
+export function translateArea(points: SphericalPoint[], deltaYaw: number, deltaPitch: number): SphericalPoint[] {
+  return points.map((p) => ({
+    yaw: normalizeYaw(p.yaw + deltaYaw),
+    pitch: clampPitch(p.pitch + deltaPitch),
+  }));
+}
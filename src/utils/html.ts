@@ -0,0 +1,38 @@
+/**
+ * HTML helpers for building markup from user-provided strings
+ */
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+/**
+ * Escape text for use in HTML content and quoted attribute values
+ */
+export function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+}
+
+/** Schemes allowed in links; anything else (javascript:, vbscript:, ...) is dropped */
+const SAFE_URL_SCHEMES = /^(https?|mailto|tel):/i;
+const DATA_IMAGE_URL = /^data:image\/(png|jpe?g|gif|webp|svg\+xml);/i;
+
+/**
+ * Return the URL if it is safe for href/src, otherwise null.
+ * Relative URLs are allowed, data URLs only for images.
+ */
+export function sanitizeUrl(url: string | undefined, options: { allowDataImage?: boolean } = {}): string | null {
+  const trimmed = url?.trim() ?? '';
+  if (!trimmed) return null;
+
+  // Browsers ignore whitespace and control characters inside the scheme
+  const compact = trimmed.replace(/[\u0000-\u0020\u007f]/g, '');
+  if (options.allowDataImage && DATA_IMAGE_URL.test(compact)) return trimmed;
+  if (SAFE_URL_SCHEMES.test(compact)) return trimmed;
+  // No scheme at all: a relative URL
+  return /^[a-z][a-z0-9+.-]*:/i.test(compact) ? null : trimmed;
+}
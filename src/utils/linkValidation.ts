@@ -0,0 +1,49 @@
+/**
+ * Link Validation
+ * Finds navigation hotspots whose target panorama is missing
+ */
+
+import type { NavigationHotspot, Panorama, Tour } from '../types';
+
+export interface LinkIssue {
+  panoramaId: string;
+  hotspotId: string;
+  reason: 'empty' | 'missing' | 'self';
+  message: string;
+}
+
+/**
+ * Check all navigation hotspots of a tour
+ */
+export function findLinkIssues(tour: Tour): LinkIssue[] {
+  const names = new Map(tour.panoramas.map((p) => [p.id, p.name]));
+  const issues: LinkIssue[] = [];
+
+  for (const panorama of tour.panoramas) {
+    for (const hotspot of getNavigationHotspots(panorama)) {
+      const label = `${panorama.name}: "${hotspot.tooltip || hotspot.id}"`;
+      const base = { panoramaId: panorama.id, hotspotId: hotspot.id };
+
+      if (!hotspot.targetPanorama) {
+        issues.push({ ...base, reason: 'empty', message: `${label} hat kein Ziel` });
+      } else if (!names.has(hotspot.targetPanorama)) {
+        issues.push({ ...base, reason: 'missing', message: `${label} zeigt auf ein fehlendes Panorama` });
+      } else if (hotspot.targetPanorama === panorama.id) {
+        issues.push({ ...base, reason: 'self', message: `${label} zeigt auf sich selbst` });
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Check whether a panorama already links to the given target
+ */
+export function hasLinkTo(panorama: Panorama, targetId: string): boolean {
+  return getNavigationHotspots(panorama).some((h) => h.targetPanorama === targetId);
+}
+
+function getNavigationHotspots(panorama: Panorama): NavigationHotspot[] {
+  return panorama.hotspots.filter((h): h is NavigationHotspot => h.type === 'navigation');
+}
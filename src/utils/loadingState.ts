@@ -0,0 +1,34 @@
+/**
+ * Loading overlay helpers shared by the viewer entry points
+ */
+
+/**
+ * Hide the loading overlay once the panorama is visible
+ */
+export function hideLoading(): void {
+  document.getElementById('loading')?.classList.add('hidden');
+}
+
+/**
+ * Replace the loading spinner with a message (not found, errors)
+ */
+export function showLoadingMessage(title: string, detail?: string): void {
+  const loadingEl = document.getElementById('loading');
+  if (!loadingEl) return;
+
+  const message = document.createElement('div');
+  message.className = 'loading-message';
+
+  const titleEl = document.createElement('p');
+  titleEl.textContent = title;
+  message.appendChild(titleEl);
+
+  if (detail) {
+    const detailEl = document.createElement('small');
+    detailEl.textContent = detail;
+    message.appendChild(detailEl);
+  }
+
+  loadingEl.replaceChildren(message);
+  loadingEl.classList.remove('hidden');
+}
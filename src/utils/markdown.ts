@@ -0,0 +1,71 @@
+/**
+ * Markdown
+ * Renders the small Markdown subset used in hotspot descriptions to safe HTML.
+ * The text is escaped first, only the markup created here ends up as HTML.
+ */
+
+import { escapeHtml, sanitizeUrl } from './html';
+
+/**
+ * Supported: paragraphs, line breaks, headings (#, ##, ###), lists (-, *, 1.),
+ * **bold**, *italic* / _italic_, `code` and [links](https://...)
+ */
+export function renderMarkdown(markdown: string): string {
+  // NUL marks placeholders below
+  const blocks = markdown.replace(/\u0000/g, '').replace(/\r\n?/g, '\n').split(/\n{2,}/);
+  return blocks.map(renderBlock).filter(Boolean).join('');
+}
+
+function renderBlock(block: string): string {
+  const lines = block.split('\n').filter((line) => line.trim());
+  if (lines.length === 0) return '';
+
+  const heading = /^(#{1,3})\s+(.*)$/.exec(lines[0]);
+  if (heading && lines.length === 1) {
+    // h3 is the popup title, description headings start below it
+    const level = heading[1].length + 3;
+    return `<h${level}>${renderInline(heading[2])}</h${level}>`;
+  }
+
+  if (lines.every((line) => /^\s*[-*]\s+/.test(line))) {
+    return `<ul>${lines.map((line) => `<li>${renderInline(line.replace(/^\s*[-*]\s+/, ''))}</li>`).join('')}</ul>`;
+  }
+  if (lines.every((line) => /^\s*\d+[.)]\s+/.test(line))) {
+    return `<ol>${lines.map((line) => `<li>${renderInline(line.replace(/^\s*\d+[.)]\s+/, ''))}</li>`).join('')}</ol>`;
+  }
+
+  return `<p>${lines.map(renderInline).join('<br>')}</p>`;
+}
+
+function renderInline(text: string): string {
+  // Generated markup waits in placeholders, so code spans and link URLs are not formatted
+  const placeholders: string[] = [];
+  const hold = (markup: string) => {
+    placeholders.push(markup);
+    return `\u0000${placeholders.length - 1}\u0000`;
+  };
+
+  const html = escapeHtml(text)
+    .replace(/`([^`]+)`/g, (_, code: string) => hold(`<code>${code}</code>`))
+    .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, (_, label: string, url: string) => {
+      // The URL is already escaped, undo it for the check and escape again
+      const safe = sanitizeUrl(unescapeHtml(url));
+      return safe
+        ? `${hold(`<a href="${escapeHtml(safe)}" target="_blank" rel="noopener noreferrer">`)}${label}${hold('</a>')}`
+        : label;
+    })
+    .replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>')
+    .replace(/(^|[^*])\*([^*\s](?:[^*]*[^*\s])?)\*/g, '$1<em>$2</em>')
+    .replace(/(^|\W)_([^_\s](?:[^_]*[^_\s])?)_(?=\W|$)/g, '$1<em>$2</em>');
+
+  return html.replace(/\u0000(\d+)\u0000/g, (_, index: string) => placeholders[Number(index)]);
+}
+
+function unescapeHtml(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+}
@@ -0,0 +1,71 @@
+/**
+ * Media API Client
+ * Uploads files for info hotspots to /api/media (stored with the tour)
+ */
+
+import type { UploadedMedia } from '../types';
+import { forgetWriteToken, getWriteAuthorization } from './writeToken';
+
+interface MediaResponse {
+  success: boolean;
+  media?: UploadedMedia;
+  error?: string;
+}
+
+/** Largest file the media endpoint accepts */
+export const MAX_MEDIA_FILE_SIZE = 100 * 1024 * 1024;
+
+/**
+ * Upload a file; images are scaled down and converted to WebP on the server
+ * @param onProgress upload progress in percent
+ */
+export function uploadMedia(tourId: string, file: File, onProgress?: (percent: number) => void): Promise<UploadedMedia> {
+  if (file.size > MAX_MEDIA_FILE_SIZE) {
+    return Promise.reject(new Error(`${file.name} ist größer als 100 MB`));
+  }
+
+  let authorization: string;
+  try {
+    authorization = getWriteAuthorization();
+  } catch (error) {
+    return Promise.reject(error);
+  }
+
+  const formData = new FormData();
+  formData.append('tourId', tourId);
+  formData.append('file', file);
+
+  // XHR instead of fetch for upload progress
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+
+    xhr.upload.addEventListener('progress', (e) => {
+      if (e.lengthComputable) {
+        onProgress?.(Math.round((e.loaded / e.total) * 100));
+      }
+    });
+
+    xhr.addEventListener('load', () => {
+      let data: MediaResponse;
+      try {
+        data = JSON.parse(xhr.responseText);
+      } catch {
+        data = { success: false, error: `HTTP ${xhr.status}` };
+      }
+      if (xhr.status === 401) forgetWriteToken();
+
+      if (data.success && data.media) {
+        resolve(data.media);
+      } else {
+        reject(new Error(data.error || `${file.name} konnte nicht hochgeladen werden`));
+      }
+    });
+
+    xhr.addEventListener('error', () => reject(new Error('Netzwerkfehler beim Upload')));
+    xhr.addEventListener('abort', () => reject(new Error('Upload abgebrochen')));
+
+    xhr.open('POST', '/api/media');
+    xhr.setRequestHeader('Authorization', authorization);
+    xhr.send(formData);
+  });
+}
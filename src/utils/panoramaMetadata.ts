@@ -0,0 +1,47 @@
+/**
+ * Panorama Metadata - viewer settings derived from capture metadata
+ */
+
+import type { PanoDataProvider } from '@photo-sphere-viewer/core';
+import type { PanoramaMetadata, ViewPosition } from '../types';
+import { DEFAULT_VIEW_POSITION } from '../types';
+
+/**
+ * Initial view for a new panorama
+ * With a known heading the view faces north, so all panoramas of a tour
+ * start in the same direction
+ */
+export function getDefaultInitialView(metadata?: PanoramaMetadata, fov = DEFAULT_VIEW_POSITION.fov): ViewPosition {
+  const yaw = metadata?.heading !== undefined ? normalizeYaw(-metadata.heading) : DEFAULT_VIEW_POSITION.yaw;
+  return { ...DEFAULT_VIEW_POSITION, yaw, fov };
+}
+
+/**
+ * PanoData for partial panoramas, or undefined for full spheres
+ * The crop is stored in original pixels and scaled to the loaded resolution
+ */
+export function createPanoDataProvider(metadata?: PanoramaMetadata): PanoDataProvider | undefined {
+  const crop = metadata?.crop;
+  if (!crop) return undefined;
+
+  return (image) => {
+    const scale = image.width / crop.croppedWidth;
+    return {
+      fullWidth: Math.round(crop.fullWidth * scale),
+      fullHeight: Math.round(crop.fullHeight * scale),
+      croppedWidth: image.width,
+      croppedHeight: image.height,
+      croppedX: Math.round(crop.croppedX * scale),
+      croppedY: Math.round(crop.croppedY * scale),
+    };
+  };
+}
+
+/**
+ * Wrap an angle into -180..180
+ */
+function normalizeYaw(yaw: number): number {
+  const wrapped = ((yaw + 180) % 360 + 360) % 360 - 180;
+  // Avoid "-0" in saved tours
+  return wrapped === 0 ? 0 : wrapped;
+}
@@ -0,0 +1,78 @@
+/**
+ * Tour API Client
+ * Thin wrapper around the /api/tours endpoints
+ */
+
+import type { Tour } from '../types';
+import { forgetWriteToken, getWriteAuthorization } from './writeToken';
+
+interface TourResponse {
+  success: boolean;
+  tour?: Tour;
+  error?: string;
+}
+
+const API_BASE = '/api/tours';
+
+async function request(url: string, init?: RequestInit): Promise<{ status: number; data: TourResponse }> {
+  const response = await fetch(url, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      ...init?.headers,
+    },
+  });
+
+  let data: TourResponse;
+  try {
+    data = await response.json();
+  } catch {
+    data = { success: false, error: `HTTP ${response.status}` };
+  }
+
+  if (response.status === 401) forgetWriteToken();
+
+  return { status: response.status, data };
+}
+
+/**
+ * Load a tour by ID, or null if it does not exist
+ */
+export async function fetchTour(tourId: string): Promise<Tour | null> {
+  const { status, data } = await request(`${API_BASE}/${encodeURIComponent(tourId)}`);
+  if (status === 404) return null;
+  if (!data.success || !data.tour) {
+    throw new Error(data.error || 'Tour konnte nicht geladen werden');
+  }
+  return data.tour;
+}
+
+/**
+ * Create a new tour (the server assigns an ID if none is set)
+ */
+export async function createTour(tour: Omit<Tour, 'id' | 'createdAt' | 'updatedAt'> & { id?: string }): Promise<Tour> {
+  const { data } = await request(API_BASE, {
+    method: 'POST',
+    headers: { Authorization: getWriteAuthorization() },
+    body: JSON.stringify(tour),
+  });
+  if (!data.success || !data.tour) {
+    throw new Error(data.error || 'Tour konnte nicht erstellt werden');
+  }
+  return data.tour;
+}
+
+/**
+ * Save a tour, creating it if it does not exist yet
+ */
+export async function saveTour(tour: Tour): Promise<Tour> {
+  const { data } = await request(`${API_BASE}/${encodeURIComponent(tour.id)}`, {
+    method: 'PUT',
+    headers: { Authorization: getWriteAuthorization() },
+    body: JSON.stringify(tour),
+  });
+  if (!data.success || !data.tour) {
+    throw new Error(data.error || 'Tour konnte nicht gespeichert werden');
+  }
+  return data.tour;
+}
@@ -0,0 +1,89 @@
+/**
+ * Video Embeds
+ * Turns YouTube and Vimeo links into privacy-enhanced player URLs
+ */
+
+export type VideoSource =
+  | { provider: 'youtube' | 'vimeo'; embedUrl: string }
+  | { provider: 'file'; url: string };
+
+const YOUTUBE_HOSTS = new Set(['youtube.com', 'www.youtube.com', 'm.youtube.com', 'youtu.be', 'youtube-nocookie.com', 'www.youtube-nocookie.com']);
+const VIMEO_HOSTS = new Set(['vimeo.com', 'www.vimeo.com', 'player.vimeo.com']);
+
+const YOUTUBE_ID = /^[\w-]{11}$/;
+
+/**
+ * Detect the provider of a video link. Links that are neither YouTube nor Vimeo
+ * are treated as video files; null if the URL cannot be parsed.
+ */
+export function parseVideoUrl(url: string): VideoSource | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url, window.location.href);
+  } catch {
+    return null;
+  }
+
+  const host = parsed.hostname.toLowerCase();
+  if (YOUTUBE_HOSTS.has(host)) {
+    const id = getYoutubeId(parsed);
+    return id ? { provider: 'youtube', embedUrl: createYoutubeEmbedUrl(id, parsed.searchParams) } : null;
+  }
+  if (VIMEO_HOSTS.has(host)) {
+    return createVimeoSource(parsed);
+  }
+
+  return { provider: 'file', url };
+}
+
+function getYoutubeId(url: URL): string | null {
+  const segments = url.pathname.split('/').filter(Boolean);
+  // youtu.be/ID, youtube.com/watch?v=ID, /embed/ID, /shorts/ID, /live/ID
+  const id = url.hostname === 'youtu.be'
+    ? segments[0]
+    : segments[0] === 'watch' ? url.searchParams.get('v') : segments[1];
+
+  return id && YOUTUBE_ID.test(id) ? id : null;
+}
+
+/**
+ * youtube-nocookie.com only sets cookies once the video is played
+ */
+function createYoutubeEmbedUrl(id: string, params: URLSearchParams): string {
+  const embed = new URL(`https://www.youtube-nocookie.com/embed/${id}`);
+  embed.searchParams.set('rel', '0');
+
+  const start = parseStartTime(params.get('start') ?? params.get('t'));
+  if (start > 0) embed.searchParams.set('start', String(start));
+
+  return embed.toString();
+}
+
+/**
+ * Start time as seconds ("90", "90s" or "1m30s")
+ */
+function parseStartTime(value: string | null): number {
+  if (!value) return 0;
+  if (/^\d+s?$/.test(value)) return parseInt(value, 10);
+
+  const match = /^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/.exec(value);
+  if (!match) return 0;
+  const [, hours = '0', minutes = '0', seconds = '0'] = match;
+  return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds);
+}
+
+/**
+ * dnt=1 stops Vimeo from tracking the session; unlisted videos need their hash
+ */
+function createVimeoSource(url: URL): VideoSource | null {
+  const segments = url.pathname.split('/').filter(Boolean);
+  // vimeo.com/ID, vimeo.com/ID/HASH, player.vimeo.com/video/ID?h=HASH
+  const [id, hash] = segments[0] === 'video' ? [segments[1], url.searchParams.get('h')] : [segments[0], segments[1]];
+  if (!id || !/^\d+$/.test(id)) return null;
+
+  const embed = new URL(`https://player.vimeo.com/video/${id}`);
+  embed.searchParams.set('dnt', '1');
+  if (hash && /^[\da-f]+$/i.test(hash)) embed.searchParams.set('h', hash);
+
+  return { provider: 'vimeo', embedUrl: embed.toString() };
+}
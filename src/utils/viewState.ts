@@ -0,0 +1,40 @@
+/**
+ * View State - (de)serialization of deep links
+ * Format: #pano=<id>&yaw=<deg>&pitch=<deg>&fov=<deg>
+ */
+
+import type { ViewState } from '../types';
+
+/**
+ * Parse a view state from a URL hash (with or without leading '#')
+ * Returns null if the hash contains no view information
+ */
+export function parseViewState(hash: string): Partial<ViewState> | null {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const state: Partial<ViewState> = {};
+
+  const pano = params.get('pano');
+  if (pano) state.pano = pano;
+
+  for (const key of ['yaw', 'pitch', 'fov'] as const) {
+    const value = params.get(key);
+    if (value === null || value === '') continue;
+    const num = Number(value);
+    if (Number.isFinite(num)) state[key] = num;
+  }
+
+  return Object.keys(state).length > 0 ? state : null;
+}
+
+/**
+ * Serialize a view state for the URL hash (without leading '#')
+ */
+export function serializeViewState(state: ViewState): string {
+  const params = new URLSearchParams({
+    pano: state.pano,
+    yaw: state.yaw.toFixed(1),
+    pitch: state.pitch.toFixed(1),
+    fov: state.fov.toFixed(0),
+  });
+  return params.toString();
+}
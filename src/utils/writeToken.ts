@@ -0,0 +1,27 @@
+/**
+ * Write Token
+ * Saving tours and uploading media need the server's TOUR_WRITE_TOKEN.
+ * The editor asks for it once and keeps it in this browser.
+ */
+
+const STORAGE_KEY = 'tourWriteToken';
+
+/**
+ * Authorization header for changing API requests; throws if the author gives no token
+ */
+export function getWriteAuthorization(): string {
+  let token = localStorage.getItem(STORAGE_KEY);
+  if (!token) {
+    token = prompt('Schreib-Token für die Tour-API (TOUR_WRITE_TOKEN):')?.trim() || null;
+    if (!token) throw new Error('Ohne Schreib-Token kann nicht gespeichert werden');
+    localStorage.setItem(STORAGE_KEY, token);
+  }
+  return `Bearer ${token}`;
+}
+
+/**
+ * Drop a token the server rejected, so the next attempt asks again
+ */
+export function forgetWriteToken(): void {
+  localStorage.removeItem(STORAGE_KEY);
+}
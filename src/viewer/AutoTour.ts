@@ -0,0 +1,200 @@
+/**
+ * AutoTour - unattended walk through all panoramas (kiosk / trade-show mode)
+ *
+ * Rotates each panorama for `delay` seconds, then moves on, either in tour
+ * order or along navigation links, and loops forever. Any user interaction
+ * pauses the tour; it resumes after the user has been idle for a while.
+ */
+
+import type { AutorotatePlugin } from '@photo-sphere-viewer/autorotate-plugin';
+import type { AutoTourOrder, Tour } from '../types';
+
+export interface AutoTourOptions {
+  autorotate: AutorotatePlugin;
+  /** Element whose pointer and wheel events count as interaction (keys count anywhere) */
+  container: HTMLElement;
+  getTour: () => Tour | null;
+  getCurrentPanoramaId: () => string | null;
+  goToPanorama: (panoramaId: string) => Promise<void>;
+  /** Called when the tour is started, paused, resumed or stopped */
+  onChange?: (state: AutoTourState) => void;
+}
+
+export type AutoTourState = 'stopped' | 'running' | 'paused';
+
+/** Idle time after an interaction before the tour continues */
+const RESUME_DELAY = 15000;
+
+const INTERACTION_EVENTS = ['pointerdown', 'wheel', 'touchstart'] as const;
+
+/** Keys the viewer uses for navigation (other shortcuts must not pause the tour) */
+const NAVIGATION_KEYS = new Set(['ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight', 'PageUp', 'PageDown', '+', '-', '=', ' ']);
+
+export class AutoTour {
+  private options: AutoTourOptions;
+  private state: AutoTourState = 'stopped';
+  private delay = 5;
+  private order: AutoTourOrder = 'sequence';
+  private advanceTimeout: number | null = null;
+  private resumeTimeout: number | null = null;
+  /** Panoramas shown in the current loop (for link order) */
+  private visited = new Set<string>();
+  private isTransitioning = false;
+
+  constructor(options: AutoTourOptions) {
+    this.options = options;
+  }
+
+  /**
+   * @param delay seconds per panorama
+   */
+  start(delay: number, order: AutoTourOrder = 'sequence'): void {
+    this.delay = Math.max(1, delay);
+    this.order = order;
+    this.visited.clear();
+
+    if (this.state === 'stopped') {
+      INTERACTION_EVENTS.forEach((type) => {
+        this.options.container.addEventListener(type, this.handleInteraction, { capture: true, passive: true });
+      });
+      // Keyboard navigation works without focus on the viewer
+      window.addEventListener('keydown', this.handleKeydown);
+    }
+
+    this.run();
+  }
+
+  stop(): void {
+    if (this.state === 'stopped') return;
+
+    INTERACTION_EVENTS.forEach((type) => {
+      this.options.container.removeEventListener(type, this.handleInteraction, { capture: true });
+    });
+    window.removeEventListener('keydown', this.handleKeydown);
+    this.clearTimers();
+    this.options.autorotate.stop();
+    this.setState('stopped');
+  }
+
+  getState(): AutoTourState {
+    return this.state;
+  }
+
+  /**
+   * Restart the countdown after the panorama changed (by the tour or by the user)
+   */
+  handlePanoramaChange(): void {
+    if (this.state !== 'running') return;
+    this.scheduleAdvance();
+  }
+
+  destroy(): void {
+    this.stop();
+  }
+
+  private run(): void {
+    const current = this.options.getCurrentPanoramaId();
+    if (current) this.visited.add(current);
+
+    this.options.autorotate.start();
+    this.setState('running');
+    this.scheduleAdvance();
+  }
+
+  private handleKeydown = (event: KeyboardEvent): void => {
+    if (NAVIGATION_KEYS.has(event.key)) this.handleInteraction();
+  };
+
+  private handleInteraction = (): void => {
+    if (this.state === 'stopped') return;
+
+    if (this.state === 'running') {
+      this.clearTimers();
+      this.options.autorotate.stop();
+      this.setState('paused');
+    }
+
+    // Every further interaction postpones the resume
+    if (this.resumeTimeout !== null) clearTimeout(this.resumeTimeout);
+    this.resumeTimeout = window.setTimeout(() => {
+      this.resumeTimeout = null;
+      this.run();
+    }, RESUME_DELAY);
+  };
+
+  private scheduleAdvance(): void {
+    if (this.advanceTimeout !== null) clearTimeout(this.advanceTimeout);
+    this.advanceTimeout = window.setTimeout(() => {
+      this.advanceTimeout = null;
+      void this.advance();
+    }, this.delay * 1000);
+  }
+
+  private async advance(): Promise<void> {
+    const next = this.getNextPanoramaId();
+    // A single panorama just keeps rotating
+    if (!next || this.isTransitioning) {
+      this.scheduleAdvance();
+      return;
+    }
+
+    this.isTransitioning = true;
+    try {
+      await this.options.goToPanorama(next);
+      this.visited.add(next);
+    } catch (error) {
+      console.warn(`Auto-tour could not open panorama "${next}":`, error);
+    } finally {
+      this.isTransitioning = false;
+    }
+
+    if (this.state === 'running') {
+      // The transition may have stopped the rotation
+      this.options.autorotate.start();
+      this.scheduleAdvance();
+    }
+  }
+
+  private getNextPanoramaId(): string | null {
+    const tour = this.options.getTour();
+    const currentId = this.options.getCurrentPanoramaId();
+    if (!tour || tour.panoramas.length < 2) return null;
+
+    const index = tour.panoramas.findIndex((p) => p.id === currentId);
+    const sequenceNext = tour.panoramas[(index + 1) % tour.panoramas.length].id;
+    if (this.order === 'sequence') return sequenceNext;
+
+    // Follow the first link to a panorama not seen in this loop
+    const ids = new Set(tour.panoramas.map((p) => p.id));
+    const linked = tour.panoramas[index]?.hotspots
+      .flatMap((h) => (h.type === 'navigation' && ids.has(h.targetPanorama) ? [h.targetPanorama] : []))
+      .filter((id) => id !== currentId) ?? [];
+    const unvisited = linked.find((id) => !this.visited.has(id));
+    if (unvisited) return unvisited;
+
+    // Dead end: jump to the next unseen panorama, or start a new loop
+    const remaining = tour.panoramas.find((p) => !this.visited.has(p.id));
+    if (remaining) return remaining.id;
+
+    this.visited.clear();
+    if (currentId) this.visited.add(currentId);
+    return linked[0] ?? sequenceNext;
+  }
+
+  private clearTimers(): void {
+    if (this.advanceTimeout !== null) {
+      clearTimeout(this.advanceTimeout);
+      this.advanceTimeout = null;
+    }
+    if (this.resumeTimeout !== null) {
+      clearTimeout(this.resumeTimeout);
+      this.resumeTimeout = null;
+    }
+  }
+
+  private setState(state: AutoTourState): void {
+    if (this.state === state) return;
+    this.state = state;
+    this.options.onChange?.(state);
+  }
+}
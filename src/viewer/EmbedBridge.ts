@@ -0,0 +1,214 @@
+/**
+ * EmbedBridge - postMessage control API for tours embedded via iframe
+ *
+ * Every message in either direction is an object with `source: 'pano-viewer'`.
+ *
+ * Commands (host page → viewer):
+ *   { source, type: 'goToPanorama', panoramaId }
+ *   { source, type: 'setView', yaw, pitch, fov? }
+ *   { source, type: 'zoomIn' } / { source, type: 'zoomOut' }
+ *   { source, type: 'startAutoTour' } / { source, type: 'stopAutoTour' }
+ *   { source, type: 'getState' }
+ * An optional `requestId` is echoed back in the `ack` / `error` reply.
+ *
+ * Events (viewer → host page):
+ *   { source, type: 'ready', tourId, panoramas: [{ id, name }] }
+ *   { source, type: 'panoramaChange', panoramaId }
+ *   { source, type: 'hotspotClick', hotspot }
+ *   { source, type: 'ack', requestId?, state? }
+ *   { source, type: 'error', requestId?, message }
+ *
+ * If the tour defines `settings.embedAllowedOrigins`, commands from other origins
+ * are ignored and events are only delivered to the listed origins. Entries are
+ * reduced to their origin (`https://kunde.de/` → `https://kunde.de`), invalid
+ * ones are dropped.
+ */
+
+import type { TourViewer } from './TourViewer';
+import type { Hotspot, ViewerState } from '../types';
+
+export const EMBED_MESSAGE_SOURCE = 'pano-viewer';
+
+export type EmbedCommand =
+  | { type: 'goToPanorama'; panoramaId: string }
+  | { type: 'setView'; yaw: number; pitch: number; fov?: number }
+  | { type: 'zoomIn' }
+  | { type: 'zoomOut' }
+  | { type: 'startAutoTour' }
+  | { type: 'stopAutoTour' }
+  | { type: 'getState' };
+
+export type EmbedEvent =
+  | { type: 'ready'; tourId: string; panoramas: Array<{ id: string; name: string }> }
+  | { type: 'panoramaChange'; panoramaId: string }
+  | { type: 'hotspotClick'; hotspot: Hotspot }
+  | { type: 'ack'; requestId?: string; state?: ViewerState }
+  | { type: 'error'; requestId?: string; message: string };
+
+export interface EmbedBridgeOptions {
+  viewer: TourViewer;
+  /** Origins allowed to talk to the viewer; any origin if empty or undefined */
+  allowedOrigins?: string[];
+}
+
+export class EmbedBridge {
+  private viewer: TourViewer;
+  private allowedOrigins: string[];
+  private target: Window | null;
+
+  constructor(options: EmbedBridgeOptions) {
+    this.viewer = options.viewer;
+    this.allowedOrigins = normalizeOrigins(options.allowedOrigins);
+    // Only talk to a parent frame, never to ourselves
+    this.target = window.parent !== window ? window.parent : null;
+
+    if (this.target) {
+      window.addEventListener('message', this.messageHandler);
+    }
+  }
+
+  // ==========================================
+  // Events
+  // ==========================================
+
+  notifyReady(): void {
+    const tour = this.viewer.getTour();
+    if (!tour) return;
+
+    this.post({
+      type: 'ready',
+      tourId: tour.id,
+      panoramas: tour.panoramas.map((p) => ({ id: p.id, name: p.name })),
+    });
+  }
+
+  notifyPanoramaChange(panoramaId: string): void {
+    this.post({ type: 'panoramaChange', panoramaId });
+  }
+
+  notifyHotspotClick(hotspot: Hotspot): void {
+    this.post({ type: 'hotspotClick', hotspot });
+  }
+
+  private post(event: EmbedEvent): void {
+    if (!this.target) return;
+
+    // postMessage silently drops messages whose target origin does not match
+    // ('*' is never combined with named origins, see normalizeOrigins)
+    for (const origin of this.allowedOrigins) {
+      this.target.postMessage({ source: EMBED_MESSAGE_SOURCE, ...event }, origin);
+    }
+  }
+
+  // ==========================================
+  // Commands
+  // ==========================================
+
+  private isOriginAllowed(origin: string): boolean {
+    return this.allowedOrigins.includes('*') || this.allowedOrigins.includes(origin);
+  }
+
+  private messageHandler = async (e: MessageEvent) => {
+    if (e.source !== this.target) return;
+
+    const data = e.data as (EmbedCommand & { source?: string; requestId?: string }) | null;
+    if (!data || typeof data !== 'object' || data.source !== EMBED_MESSAGE_SOURCE) return;
+
+    if (!this.isOriginAllowed(e.origin)) {
+      console.warn(`Ignoring embed command from disallowed origin: ${e.origin}`);
+      return;
+    }
+
+    try {
+      // Navigation is only acknowledged once the panorama is shown
+      await this.handleCommand(data);
+      this.post({
+        type: 'ack',
+        requestId: data.requestId,
+        state: data.type === 'getState' ? this.viewer.getState() : undefined,
+      });
+    } catch (error) {
+      this.post({
+        type: 'error',
+        requestId: data.requestId,
+        message: error instanceof Error ? error.message : 'Unbekannter Fehler',
+      });
+    }
+  };
+
+  private async handleCommand(command: EmbedCommand): Promise<void> {
+    switch (command.type) {
+      case 'goToPanorama': {
+        const exists = this.viewer.getTour()?.panoramas.some((p) => p.id === command.panoramaId);
+        if (!exists) {
+          throw new Error(`Unknown panorama "${command.panoramaId}"`);
+        }
+        await this.viewer.goToPanorama(command.panoramaId);
+        break;
+      }
+      case 'setView':
+        if (typeof command.yaw !== 'number' || typeof command.pitch !== 'number') {
+          throw new Error('setView requires numeric yaw and pitch');
+        }
+        this.viewer.setView(command.yaw, command.pitch, command.fov);
+        break;
+      case 'zoomIn':
+        this.viewer.zoomIn();
+        break;
+      case 'zoomOut':
+        this.viewer.zoomOut();
+        break;
+      case 'startAutoTour':
+        this.viewer.startAutoTour();
+        break;
+      case 'stopAutoTour':
+        this.viewer.stopAutoTour();
+        break;
+      case 'getState':
+        break;
+      default:
+        throw new Error(`Unknown command "${(command as { type: string }).type}"`);
+    }
+  }
+
+  /**
+   * Stop listening for commands
+   */
+  destroy(): void {
+    window.removeEventListener('message', this.messageHandler);
+    this.target = null;
+  }
+}
+
+/**
+ * Origins to talk to: '*' alone if any origin is allowed, otherwise the
+ * valid entries (an empty result blocks every origin)
+ */
+function normalizeOrigins(entries: string[] | undefined): string[] {
+  if (!entries?.length) return ['*'];
+
+  const origins = new Set<string>();
+  for (const entry of entries) {
+    const origin = normalizeOrigin(entry);
+    if (origin) {
+      origins.add(origin);
+    } else {
+      console.warn(`Ignoring invalid embed origin: ${entry}`);
+    }
+  }
+
+  return origins.has('*') ? ['*'] : [...origins];
+}
+
+function normalizeOrigin(entry: unknown): string | null {
+  if (entry === '*') return '*';
+  if (typeof entry !== 'string') return null;
+
+  try {
+    const origin = new URL(entry).origin;
+    // Non-hierarchical URLs (e.g. "kunde.de:443") have the opaque origin "null"
+    return origin === 'null' ? null : origin;
+  } catch {
+    return null;
+  }
+}
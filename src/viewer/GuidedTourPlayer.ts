@@ -0,0 +1,213 @@
+/**
+ * GuidedTourPlayer - plays a scripted walkthrough (storyline) step by step
+ *
+ * Each step switches to its panorama, animates the camera to the keyframe,
+ * opens the step's info hotspot and shows the caption for the hold time.
+ * Playback can be paused, resumed and scrubbed to any step. Dragging the
+ * view during an animation interrupts it and pauses the playback.
+ */
+
+import type { GuidedTour, GuidedTourStep } from '../types';
+import type { TourViewer } from './TourViewer';
+
+export type GuidedTourStatus = 'stopped' | 'playing' | 'paused' | 'ended';
+
+export interface GuidedTourPlayerState {
+  status: GuidedTourStatus;
+  stepIndex: number;
+  stepCount: number;
+  /** Step currently shown (null while stopped) */
+  step: GuidedTourStep | null;
+}
+
+export interface GuidedTourPlayerOptions {
+  viewer: TourViewer;
+  guidedTour: GuidedTour;
+  onChange?: (state: GuidedTourPlayerState) => void;
+}
+
+/** Default time at a keyframe in seconds */
+const DEFAULT_HOLD = 4;
+
+export class GuidedTourPlayer {
+  private viewer: TourViewer;
+  private guidedTour: GuidedTour;
+  private onChange?: (state: GuidedTourPlayerState) => void;
+  private status: GuidedTourStatus = 'stopped';
+  private stepIndex = 0;
+  /** Incremented on every pause/seek, outdated playback loops stop at their next check */
+  private run = 0;
+  private holdTimeout: number | null = null;
+  private resolveHold: (() => void) | null = null;
+
+  constructor(options: GuidedTourPlayerOptions) {
+    this.viewer = options.viewer;
+    this.guidedTour = options.guidedTour;
+    this.onChange = options.onChange;
+  }
+
+  play(): void {
+    if (this.status === 'playing' || this.guidedTour.steps.length === 0) return;
+
+    // The auto-tour would move the camera as well
+    this.viewer.stopAutoTour();
+
+    const from = this.status === 'ended' || this.status === 'stopped' ? 0 : this.stepIndex;
+    this.setStatus('playing');
+    void this.playFrom(from, true);
+  }
+
+  pause(): void {
+    if (this.status !== 'playing') return;
+
+    this.interrupt();
+    this.setStatus('paused');
+  }
+
+  togglePlayback(): void {
+    if (this.status === 'playing') {
+      this.pause();
+    } else {
+      this.play();
+    }
+  }
+
+  /**
+   * Jump to a step without animation; playback continues from there if running
+   */
+  seek(stepIndex: number): void {
+    const steps = this.guidedTour.steps;
+    if (steps.length === 0) return;
+
+    const index = Math.max(0, Math.min(steps.length - 1, stepIndex));
+    this.interrupt();
+
+    if (this.status === 'playing') {
+      void this.playFrom(index, false);
+      return;
+    }
+
+    this.stepIndex = index;
+    this.setStatus('paused');
+    void this.showStep(steps[index], false, this.run);
+  }
+
+  next(): void {
+    this.seek(this.stepIndex + 1);
+  }
+
+  previous(): void {
+    this.seek(this.stepIndex - 1);
+  }
+
+  stop(): void {
+    if (this.status === 'stopped') return;
+
+    this.interrupt();
+    this.stepIndex = 0;
+    this.viewer.closeInfoPopup();
+    this.setStatus('stopped');
+  }
+
+  getState(): GuidedTourPlayerState {
+    return {
+      status: this.status,
+      stepIndex: this.stepIndex,
+      stepCount: this.guidedTour.steps.length,
+      step: this.status === 'stopped' ? null : this.guidedTour.steps[this.stepIndex] ?? null,
+    };
+  }
+
+  destroy(): void {
+    this.stop();
+    this.onChange = undefined;
+  }
+
+  private async playFrom(index: number, animateFirst: boolean): Promise<void> {
+    const run = this.run;
+    const steps = this.guidedTour.steps;
+
+    for (let i = index; i < steps.length; i++) {
+      this.stepIndex = i;
+      this.emit();
+
+      const completed = await this.showStep(steps[i], animateFirst || i > index, run);
+      if (run !== this.run) return;
+      if (!completed) {
+        // The user took over the camera
+        this.setStatus('paused');
+        return;
+      }
+
+      await this.hold((steps[i].hold ?? DEFAULT_HOLD) * 1000);
+      if (run !== this.run) return;
+    }
+
+    this.setStatus('ended');
+  }
+
+  /**
+   * Returns false if the camera animation was interrupted
+   */
+  private async showStep(step: GuidedTourStep, animate: boolean, run: number): Promise<boolean> {
+    this.viewer.closeInfoPopup();
+
+    if (step.panoramaId !== this.viewer.getState().currentPanorama) {
+      try {
+        await this.viewer.goToPanorama(step.panoramaId);
+      } catch (error) {
+        console.warn(`Guided tour could not open panorama "${step.panoramaId}":`, error);
+      }
+      if (run !== this.run) return false;
+    }
+
+    let completed = true;
+    if (animate && step.duration > 0) {
+      completed = await this.viewer.animateView(step.view, step.duration * 1000);
+      if (run !== this.run) return false;
+    } else {
+      this.viewer.setView(step.view.yaw, step.view.pitch, step.view.fov);
+    }
+
+    if (completed && step.hotspotId) {
+      this.viewer.openInfoHotspot(step.hotspotId);
+    }
+    return completed;
+  }
+
+  private hold(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      this.resolveHold = resolve;
+      this.holdTimeout = window.setTimeout(() => {
+        this.holdTimeout = null;
+        this.resolveHold = null;
+        resolve();
+      }, ms);
+    });
+  }
+
+  /**
+   * Cancel the running step (animation and hold)
+   */
+  private interrupt(): void {
+    this.run++;
+    this.viewer.stopAnimation();
+
+    if (this.holdTimeout !== null) {
+      clearTimeout(this.holdTimeout);
+      this.holdTimeout = null;
+    }
+    // Let the waiting loop notice the new run and exit
+    this.resolveHold?.();
+    this.resolveHold = null;
+  }
+
+  private setStatus(status: GuidedTourStatus): void {
+    this.status = status;
+    this.emit();
+  }
+
+  private emit(): void {
+    this.onChange?.(this.getState());
+  }
+}
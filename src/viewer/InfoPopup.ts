@@ -0,0 +1,313 @@
+/**
+ * InfoPopup - content of an info hotspot, anchored to the hotspot
+ *
+ * The popup follows the hotspot while the camera moves and flips below it
+ * when there is no room above. On small screens it opens as a side panel.
+ * Every content field is escaped or sanitized, descriptions are Markdown.
+ */
+
+import type { Viewer, events } from '@photo-sphere-viewer/core';
+import type { InfoContent, InfoDocument, InfoHotspot, InfoImage } from '../types';
+import { escapeHtml, sanitizeUrl } from '../utils/html';
+import { renderMarkdown } from '../utils/markdown';
+import { parseVideoUrl } from '../utils/videoEmbed';
+
+export interface InfoPopupOptions {
+  viewer: Viewer;
+  /** Element the popup is placed in (the viewer's parent, so it stays visible in fullscreen) */
+  container: HTMLElement;
+}
+
+/** Below this width the popup becomes a side panel */
+const PANEL_MEDIA_QUERY = '(max-width: 768px)';
+
+/** Gap between the hotspot centre and the popup in px */
+const ANCHOR_OFFSET = 28;
+
+/** Minimum distance to the viewer edges in px */
+const EDGE_MARGIN = 12;
+
+export class InfoPopup {
+  private viewer: Viewer;
+  private container: HTMLElement;
+  private element: HTMLElement | null = null;
+  private hotspot: InfoHotspot | null = null;
+  private galleryIndex = 0;
+  private panelQuery = window.matchMedia(PANEL_MEDIA_QUERY);
+
+  constructor(options: InfoPopupOptions) {
+    this.viewer = options.viewer;
+    this.container = options.container;
+  }
+
+  open(hotspot: InfoHotspot): void {
+    this.close();
+
+    const html = renderInfoContent(hotspot.content);
+    if (!html) return;
+
+    const element = document.createElement('div');
+    element.className = 'info-popup';
+    element.setAttribute('role', 'dialog');
+    element.setAttribute('aria-label', hotspot.content.title || hotspot.tooltip || 'Information');
+    element.innerHTML = `
+      <button type="button" class="info-popup-close" data-action="close" aria-label="Schließen">✕</button>
+      <div class="info-popup-body">${html}</div>
+    `;
+
+    this.element = element;
+    this.hotspot = hotspot;
+    this.galleryIndex = 0;
+    this.container.appendChild(element);
+
+    element.addEventListener('click', this.clickHandler);
+    // Images change the size once loaded
+    element.addEventListener('load', this.updatePosition, true);
+    this.viewer.addEventListener('render', this.updatePosition);
+    this.viewer.addEventListener('click', this.viewerClickHandler);
+    this.panelQuery.addEventListener('change', this.updatePosition);
+    document.addEventListener('keydown', this.keydownHandler);
+
+    this.updatePosition();
+  }
+
+  close(): void {
+    if (!this.element) return;
+
+    this.viewer.removeEventListener('render', this.updatePosition);
+    this.viewer.removeEventListener('click', this.viewerClickHandler);
+    this.panelQuery.removeEventListener('change', this.updatePosition);
+    document.removeEventListener('keydown', this.keydownHandler);
+
+    this.element.remove();
+    this.element = null;
+    this.hotspot = null;
+  }
+
+  isOpen(): boolean {
+    return this.element !== null;
+  }
+
+  destroy(): void {
+    this.close();
+  }
+
+  /**
+   * Place the popup next to the hotspot's screen position
+   */
+  private updatePosition = (): void => {
+    const element = this.element;
+    const hotspot = this.hotspot;
+    if (!element || !hotspot) return;
+
+    const isPanel = this.panelQuery.matches;
+    element.classList.toggle('info-popup--panel', isPanel);
+    if (isPanel) {
+      element.classList.remove('info-popup--hidden', 'info-popup--below');
+      element.style.left = '';
+      element.style.top = '';
+      return;
+    }
+
+    const position = {
+      yaw: (hotspot.position.yaw * Math.PI) / 180,
+      pitch: (hotspot.position.pitch * Math.PI) / 180,
+    };
+
+    // Behind the camera the projection is meaningless
+    const visible = this.viewer.dataHelper.isPointVisible(position);
+    element.classList.toggle('info-popup--hidden', !visible);
+    if (!visible) return;
+
+    const point = this.viewer.dataHelper.sphericalCoordsToViewerCoords(position);
+    const { clientWidth, clientHeight } = this.container;
+    const width = element.offsetWidth;
+    const height = element.offsetHeight;
+
+    // Above the hotspot, below it if there is no room
+    const below = point.y - ANCHOR_OFFSET - height < EDGE_MARGIN;
+    const top = below ? point.y + ANCHOR_OFFSET : point.y - ANCHOR_OFFSET - height;
+    const left = point.x - width / 2;
+
+    element.classList.toggle('info-popup--below', below);
+    element.style.left = `${Math.round(clamp(left, EDGE_MARGIN, clientWidth - width - EDGE_MARGIN))}px`;
+    element.style.top = `${Math.round(clamp(top, EDGE_MARGIN, clientHeight - height - EDGE_MARGIN))}px`;
+  };
+
+  private clickHandler = (e: MouseEvent) => {
+    const action = (e.target as HTMLElement).closest<HTMLElement>('[data-action]')?.dataset.action;
+
+    switch (action) {
+      case 'close':
+        this.close();
+        break;
+      case 'gallery-previous':
+        this.showGalleryImage(this.galleryIndex - 1);
+        break;
+      case 'gallery-next':
+        this.showGalleryImage(this.galleryIndex + 1);
+        break;
+    }
+  };
+
+  /**
+   * A click on the panorama closes the popup, a click on a marker opens the next one
+   */
+  private viewerClickHandler = (e: events.ClickEvent) => {
+    const target = e.data.target;
+    if (target instanceof Element && target.closest('.psv-marker')) return;
+    this.close();
+  };
+
+  private keydownHandler = (e: KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      this.close();
+    } else if ((e.key === 'ArrowLeft' || e.key === 'ArrowRight') && this.isGalleryFocused()) {
+      // Step through the images instead of rotating the panorama
+      e.stopPropagation();
+      this.showGalleryImage(this.galleryIndex + (e.key === 'ArrowLeft' ? -1 : 1));
+    }
+  };
+
+  private isGalleryFocused(): boolean {
+    return !!this.element?.querySelector('.info-gallery')?.contains(document.activeElement);
+  }
+
+  private showGalleryImage(index: number): void {
+    const figures = this.element?.querySelectorAll<HTMLElement>('.info-gallery figure');
+    if (!figures || figures.length === 0) return;
+
+    // Wraps around at both ends
+    this.galleryIndex = (index + figures.length) % figures.length;
+    figures.forEach((figure, i) => {
+      figure.hidden = i !== this.galleryIndex;
+    });
+
+    const counter = this.element?.querySelector('.info-gallery-counter');
+    if (counter) counter.textContent = `${this.galleryIndex + 1} / ${figures.length}`;
+    this.updatePosition();
+  }
+}
+
+/**
+ * Markup of an info popup; empty if there is nothing to show
+ */
+function renderInfoContent(content: InfoContent | undefined): string {
+  if (!content) return '';
+
+  let html = '';
+  if (content.title) {
+    html += `<h3>${escapeHtml(content.title)}</h3>`;
+  }
+  if (content.description) {
+    html += `<div class="info-description">${renderMarkdown(content.description)}</div>`;
+  }
+
+  const images: InfoImage[] = [
+    ...(content.image ? [{ url: content.image }] : []),
+    ...(content.images ?? []),
+  ];
+  html += renderGallery(images, content.title);
+
+  html += renderVideo(content.video);
+
+  const audio = sanitizeUrl(content.audio);
+  if (audio) {
+    html += `<audio src="${escapeHtml(audio)}" controls preload="none"></audio>`;
+  }
+
+  html += renderDocuments(content.documents ?? []);
+
+  const link = sanitizeUrl(content.link?.url);
+  if (link) {
+    html += `<a class="info-link" href="${escapeHtml(link)}" target="_blank" rel="noopener noreferrer">
+      ${escapeHtml(content.link?.label || 'Mehr erfahren')} →
+    </a>`;
+  }
+
+  return html;
+}
+
+/**
+ * One image, or a gallery with buttons to step through the images
+ */
+function renderGallery(images: InfoImage[], title = ''): string {
+  const safeImages = images.flatMap((image) => {
+    const url = sanitizeUrl(image.url, { allowDataImage: true });
+    return url ? [{ ...image, url }] : [];
+  });
+
+  const figures = safeImages.map((image, index) => `
+    <figure ${index > 0 ? 'hidden' : ''}>
+      <img src="${escapeHtml(image.url)}" alt="${escapeHtml(image.caption || title)}" loading="lazy" />
+      ${image.caption ? `<figcaption>${escapeHtml(image.caption)}</figcaption>` : ''}
+    </figure>
+  `);
+
+  if (figures.length === 0) return '';
+  if (figures.length === 1) return `<div class="info-image">${figures[0]}</div>`;
+
+  return `
+    <div class="info-gallery" tabindex="0" aria-label="Bildergalerie">
+      ${figures.join('')}
+      <div class="info-gallery-controls">
+        <button type="button" data-action="gallery-previous" aria-label="Vorheriges Bild">‹</button>
+        <span class="info-gallery-counter">1 / ${figures.length}</span>
+        <button type="button" data-action="gallery-next" aria-label="Nächstes Bild">›</button>
+      </div>
+    </div>
+  `;
+}
+
+/**
+ * YouTube and Vimeo as player iframe, anything else as video file
+ */
+function renderVideo(url: string | undefined): string {
+  const safe = sanitizeUrl(url);
+  const source = safe ? parseVideoUrl(safe) : null;
+  if (!source) return '';
+
+  if (source.provider === 'file') {
+    return `<video src="${escapeHtml(source.url)}" controls playsinline preload="metadata"></video>`;
+  }
+
+  return `
+    <div class="info-embed">
+      <iframe src="${escapeHtml(source.embedUrl)}" title="${source.provider === 'youtube' ? 'YouTube' : 'Vimeo'}-Video"
+        loading="lazy" allow="autoplay; fullscreen; picture-in-picture" allowfullscreen
+        referrerpolicy="strict-origin-when-cross-origin"></iframe>
+    </div>
+  `;
+}
+
+function renderDocuments(documents: InfoDocument[]): string {
+  const items = documents.flatMap((doc) => {
+    const url = sanitizeUrl(doc.url);
+    if (!url) return [];
+
+    return [`
+      <li>
+        <a href="${escapeHtml(url)}" target="_blank" rel="noopener noreferrer">
+          <span class="info-document-icon" aria-hidden="true">📄</span>
+          ${escapeHtml(doc.title || getFileName(url))}
+        </a>
+      </li>
+    `];
+  });
+
+  return items.length > 0 ? `<ul class="info-documents">${items.join('')}</ul>` : '';
+}
+
+function getFileName(url: string): string {
+  const name = url.split(/[?#]/)[0].split('/').filter(Boolean).pop() ?? url;
+  try {
+    return decodeURIComponent(name);
+  } catch {
+    return name;
+  }
+}
+
+function clamp(value: number, min: number, max: number): number {
+  // Popups larger than the viewer stick to the top left edge
+  return Math.max(min, Math.min(max, value));
+}
@@ -0,0 +1,173 @@
+/**
+ * PanoramaPreloader - fetches linked panoramas in the background
+ *
+ * Loads the base image and the tile level the viewer will show at the current
+ * zoom into the viewer's texture cache, so a transition can start without
+ * waiting for the network. Neighbours are loaded one after another in link
+ * order until the memory budget is used up; nothing is preloaded in
+ * Save-Data mode.
+ */
+
+import type { TextureData, Viewer } from '@photo-sphere-viewer/core';
+import type { EquirectangularMultiTilesPanorama } from '@photo-sphere-viewer/equirectangular-tiles-adapter';
+import type { Texture } from 'three';
+import { prefersReducedData } from './imageResolution';
+
+export type PreloadStatus = 'pending' | 'loading' | 'loaded' | 'skipped' | 'error';
+
+export interface PreloadTarget {
+  panoramaId: string;
+  source: EquirectangularMultiTilesPanorama;
+}
+
+export interface PanoramaPreloaderOptions {
+  viewer: Viewer;
+  /** Decoded bytes the preloaded neighbours may occupy (default depends on device memory) */
+  memoryBudget?: number;
+  onChange?: (panoramaId: string, status: PreloadStatus) => void;
+}
+
+/** Budget per GB of device memory, capped for desktops */
+const BYTES_PER_GB = 24 * 1024 * 1024;
+const MAX_MEMORY_BUDGET = 128 * 1024 * 1024;
+/** Assumed device memory where the Device Memory API is missing (Safari, Firefox) */
+const DEFAULT_DEVICE_MEMORY = 4;
+/** Decoded RGBA */
+const BYTES_PER_PIXEL = 4;
+
+export class PanoramaPreloader {
+  private viewer: Viewer;
+  private memoryBudget: number;
+  private onChange?: (panoramaId: string, status: PreloadStatus) => void;
+  private status = new Map<string, PreloadStatus>();
+  /** Decoded size of everything preloaded per panorama */
+  private sizes = new Map<string, number>();
+  private queue: PreloadTarget[] = [];
+  private usedMemory = 0;
+  private isRunning = false;
+  private isDestroyed = false;
+
+  constructor(options: PanoramaPreloaderOptions) {
+    this.viewer = options.viewer;
+    this.onChange = options.onChange;
+
+    const deviceMemory = (navigator as Navigator & { deviceMemory?: number }).deviceMemory ?? DEFAULT_DEVICE_MEMORY;
+    this.memoryBudget = options.memoryBudget ?? Math.min(MAX_MEMORY_BUDGET, deviceMemory * BYTES_PER_GB);
+  }
+
+  /**
+   * Replace the neighbours to preload (e.g. after a panorama change)
+   * Neighbours that are already loaded stay loaded and count towards the budget
+   */
+  preload(targets: PreloadTarget[]): void {
+    if (this.isDestroyed) return;
+
+    // Panoramas queued for the previous node are no longer neighbours
+    this.queue.forEach((target) => this.setStatus(target.panoramaId, 'skipped'));
+    this.queue = [];
+
+    if (prefersReducedData()) {
+      targets.forEach((target) => this.setStatus(target.panoramaId, 'skipped'));
+      return;
+    }
+
+    // The texture cache evicts old entries, so former neighbours are forgotten
+    // (preloading them again later is cheap while they are still cached)
+    const ids = new Set(targets.map((target) => target.panoramaId));
+    for (const [id, status] of this.status) {
+      if (!ids.has(id) && status !== 'loading') {
+        this.status.delete(id);
+        this.sizes.delete(id);
+      }
+    }
+    this.usedMemory = [...this.sizes.values()].reduce((sum, size) => sum + size, 0);
+
+    for (const target of targets) {
+      const status = this.status.get(target.panoramaId);
+      if (status === 'loaded' || status === 'loading') continue;
+
+      this.setStatus(target.panoramaId, 'pending');
+      this.queue.push(target);
+    }
+
+    void this.run();
+  }
+
+  destroy(): void {
+    this.isDestroyed = true;
+    this.queue = [];
+  }
+
+  private async run(): Promise<void> {
+    if (this.isRunning) return;
+    this.isRunning = true;
+
+    let target: PreloadTarget | undefined;
+    while (!this.isDestroyed && (target = this.queue.shift())) {
+      if (this.usedMemory >= this.memoryBudget) {
+        this.setStatus(target.panoramaId, 'skipped');
+        continue;
+      }
+
+      this.setStatus(target.panoramaId, 'loading');
+      try {
+        const size = await this.load(target.source);
+        this.sizes.set(target.panoramaId, size);
+        this.usedMemory += size;
+        if (!this.isDestroyed) this.setStatus(target.panoramaId, 'loaded');
+      } catch (error) {
+        console.warn(`Preloading panorama "${target.panoramaId}" failed:`, error);
+        if (!this.isDestroyed) this.setStatus(target.panoramaId, 'error');
+      }
+    }
+
+    this.isRunning = false;
+  }
+
+  /**
+   * Load base image and, if it fits the budget, the tiles of the level in use
+   * Returns the decoded size in bytes
+   */
+  private async load(source: EquirectangularMultiTilesPanorama): Promise<number> {
+    // Cached under the base URL, exactly like a regular load
+    const data = await this.viewer.textureLoader.preloadPanorama(source) as TextureData<Texture | null>;
+    const image = data.texture?.image as { width: number; height: number } | undefined;
+    let size = image ? image.width * image.height * BYTES_PER_PIXEL : 0;
+
+    const levelIndex = this.getVisibleLevel(source);
+    const level = source.levels[levelIndex];
+    const levelSize = (level.width * level.width / 2) * BYTES_PER_PIXEL;
+    if (this.usedMemory + size + levelSize > this.memoryBudget) return size;
+
+    const urls: string[] = [];
+    for (let row = 0; row < level.rows; row++) {
+      for (let col = 0; col < level.cols; col++) {
+        const url = source.tileUrl(col, row, levelIndex);
+        if (url) urls.push(url);
+      }
+    }
+    if (urls.length === 0) return size;
+
+    // Tiles are cached under the key of their base image
+    await Promise.all(urls.map((url) => this.viewer.textureLoader.loadImage(url, undefined, data.cacheKey)));
+    size += levelSize;
+    return size;
+  }
+
+  /**
+   * The level the tiles adapter picks for the current zoom (the zoom is kept across transitions)
+   */
+  private getVisibleLevel(source: EquirectangularMultiTilesPanorama): number {
+    const { hFov, vFov, size } = this.viewer.state;
+    const index = source.levels.findIndex((level) =>
+      (level.width / 360) * hFov >= size.width && (level.width / 2 / 180) * vFov >= size.height
+    );
+    return index === -1 ? source.levels.length - 1 : index;
+  }
+
+  private setStatus(panoramaId: string, status: PreloadStatus): void {
+    if (this.status.get(panoramaId) === status) return;
+    this.status.set(panoramaId, status);
+    this.onChange?.(panoramaId, status);
+  }
+}
@@ -3,12 +3,22 @@
  * Wraps Photo Sphere Viewer with custom configuration and plugins
  */
 
-import { Viewer } from '@photo-sphere-viewer/core';
+import { Viewer, type Position } from '@photo-sphere-viewer/core';
 import { MarkersPlugin } from '@photo-sphere-viewer/markers-plugin';
-import { VirtualTourPlugin } from '@photo-sphere-viewer/virtual-tour-plugin';
+import { VirtualTourPlugin, type VirtualTourLink, type VirtualTourNode, type VirtualTourTransitionOptions } from '@photo-sphere-viewer/virtual-tour-plugin';
 import { AutorotatePlugin } from '@photo-sphere-viewer/autorotate-plugin';
-import type { Tour, Panorama, Hotspot, TourSettings, ViewerState } from '../types';
+import { EquirectangularTilesAdapter } from '@photo-sphere-viewer/equirectangular-tiles-adapter';
+import type { Tour, Panorama, Hotspot, TourSettings, ViewerState, ViewState, ViewPosition } from '../types';
 import { DEFAULT_TOUR_SETTINGS } from '../types';
+import { HOTSPOT_SIZE, createHotspotHtml, createHotspotMarker, getHotspotScale, getMarkerHotspot } from './hotspotMarkers';
+import { createPanoramaSource } from './panoramaSource';
+import { getResolutionBudget } from './imageResolution';
+import { PanoramaPreloader, type PreloadStatus } from './PanoramaPreloader';
+import { AutoTour, type AutoTourState } from './AutoTour';
+import { InfoPopup } from './InfoPopup';
+import { clampPosition, getViewRange, type ViewRange } from './viewRange';
+import { isAreaHotspot } from '../utils/hotspotArea';
+import { escapeHtml } from '../utils/html';
 
 // Import Photo Sphere Viewer styles
 import '@photo-sphere-viewer/core/index.css';
@@ -19,16 +29,30 @@ export interface TourViewerOptions {
   container: HTMLElement | string;
   tour?: Tour;
   settings?: Partial<TourSettings>;
+  /** Start panorama and camera (e.g. from a deep link), overrides the panorama's initialView */
+  initialView?: Partial<ViewState>;
   onReady?: () => void;
   onPanoramaChange?: (panoramaId: string) => void;
   onHotspotClick?: (hotspot: Hotspot) => void;
+  /** Called once the camera has settled, not while the auto-tour or autorotate moves it */
+  onViewChange?: (view: ViewState) => void;
+  /** Background loading of linked panoramas */
+  onPreloadChange?: (panoramaId: string, status: PreloadStatus) => void;
+  /** Auto-tour started, paused by the user, resumed or stopped */
+  onAutoTourChange?: (state: AutoTourState) => void;
 }
 
+/** Time without camera movement before onViewChange is called */
+const VIEW_CHANGE_DELAY = 750;
+
 export class TourViewer {
   private viewer: Viewer | null = null;
   private markersPlugin: MarkersPlugin | null = null;
   private virtualTourPlugin: VirtualTourPlugin | null = null;
   private autorotatePlugin: AutorotatePlugin | null = null;
+  private preloader: PanoramaPreloader | null = null;
+  private autoTour: AutoTour | null = null;
+  private infoPopup: InfoPopup | null = null;
   
   private tour: Tour | null = null;
   private settings: TourSettings;
@@ -36,6 +60,9 @@ export class TourViewer {
   
   private container: HTMLElement;
   private options: TourViewerOptions;
+  private viewChangeTimeout: number | null = null;
+  /** Camera limits of the current panorama (partial panoramas only) */
+  private viewRange: ViewRange | null = null;
 
   constructor(options: TourViewerOptions) {
     this.options = options;
@@ -68,81 +95,121 @@ export class TourViewer {
    */
   async loadTour(tour: Tour): Promise<void> {
     this.tour = tour;
+    // Explicit viewer options take precedence over the tour's own settings
+    this.settings = { ...DEFAULT_TOUR_SETTINGS, ...tour.settings, ...this.options.settings };
     
     if (tour.panoramas.length === 0) {
       throw new Error('Tour has no panoramas');
     }
 
-    const firstPanorama = tour.panoramas[0];
+    const requested = this.options.initialView;
+    const firstPanorama = tour.panoramas.find((p) => p.id === requested?.pano) ?? tour.panoramas[0];
+    const startView = { ...firstPanorama.initialView };
+    if (requested && (!requested.pano || requested.pano === firstPanorama.id)) {
+      Object.assign(startView, {
+        yaw: requested.yaw ?? startView.yaw,
+        pitch: requested.pitch ?? startView.pitch,
+        fov: requested.fov ?? startView.fov,
+      });
+    }
     
     // Initialize Photo Sphere Viewer
     this.viewer = new Viewer({
       container: this.container,
-      panorama: this.selectImageResolution(firstPanorama),
-      defaultYaw: `${firstPanorama.initialView.yaw}deg`,
-      defaultPitch: `${firstPanorama.initialView.pitch}deg`,
-      defaultZoomLvl: this.fovToZoomLevel(firstPanorama.initialView.fov),
+      // Shows the low preview first and streams larger images / tiles by zoom level
+      adapter: EquirectangularTilesAdapter.withConfig({ baseBlur: false, showErrorTile: false }),
+      panorama: createPanoramaSource(firstPanorama, getResolutionBudget(this.settings.maxFov)),
+      defaultYaw: `${startView.yaw}deg`,
+      defaultPitch: `${startView.pitch}deg`,
+      defaultZoomLvl: this.fovToZoomLevel(startView.fov),
       minFov: this.settings.minFov,
       maxFov: this.settings.maxFov,
       navbar: false, // We use custom controls
       keyboard: this.settings.keyboardNavigation ? 'always' : false,
       touchmoveTwoFingers: false,
       mousewheelCtrlKey: false,
-      plugins: this.initPlugins(tour),
+      plugins: this.initPlugins(tour, firstPanorama),
     });
 
     // Get plugin instances
     this.markersPlugin = this.viewer.getPlugin(MarkersPlugin) as MarkersPlugin;
     this.virtualTourPlugin = this.viewer.getPlugin(VirtualTourPlugin) as VirtualTourPlugin;
     this.autorotatePlugin = this.viewer.getPlugin(AutorotatePlugin) as AutorotatePlugin;
+    this.preloader = new PanoramaPreloader({
+      viewer: this.viewer,
+      onChange: (panoramaId, status) => this.options.onPreloadChange?.(panoramaId, status),
+    });
+    this.autoTour = new AutoTour({
+      autorotate: this.autorotatePlugin,
+      container: this.container,
+      getTour: () => this.tour,
+      getCurrentPanoramaId: () => this.state.currentPanorama,
+      goToPanorama: (panoramaId) => this.goToPanorama(panoramaId),
+      onChange: (state) => {
+        this.state.isAutoTourActive = state !== 'stopped';
+        this.options.onAutoTourChange?.(state);
+      },
+    });
+    this.infoPopup = new InfoPopup({ viewer: this.viewer, container: this.container });
 
     // Set up event listeners
     this.setupEventListeners();
 
     // Update state
     this.state.currentPanorama = firstPanorama.id;
-    this.state.isLoading = false;
-
-    // Fire ready callback
-    this.options.onReady?.();
+    this.viewRange = getViewRange(firstPanorama.metadata);
+
+    // Fire ready callback once the first panorama is displayed
+    this.viewer.addEventListener('ready', () => {
+      this.state.isLoading = false;
+      // The start view may lie outside a partial panorama
+      this.applyViewRange();
+      this.preloadNeighbours();
+      if (this.settings.autoTour) {
+        this.startAutoTour();
+      }
+      this.options.onReady?.();
+    }, { once: true });
   }
 
   /**
    * Initialize Photo Sphere Viewer plugins
    */
-  private initPlugins(tour: Tour) {
+  private initPlugins(tour: Tour, startPanorama: Panorama) {
     const plugins: Array<[typeof MarkersPlugin | typeof VirtualTourPlugin | typeof AutorotatePlugin, object]> = [];
 
-    // Markers Plugin - for info hotspots
+    // Markers Plugin - for info hotspots and areas
     plugins.push([
       MarkersPlugin,
       {
-        markers: this.createInfoMarkers(tour.panoramas[0]),
+        markers: this.createInfoMarkers(startPanorama),
       },
     ]);
 
     // Virtual Tour Plugin - for navigation between panoramas
-    if (tour.panoramas.length > 1) {
-      plugins.push([
-        VirtualTourPlugin,
-        {
-          positionMode: 'manual',
-          renderMode: '3d',
-          transitionOptions: {
-            showLoader: false,
-            speed: '20rpm',
-            fadeIn: true,
-            rotation: true,
-          },
-          markerStyle: {
-            element: this.createNavigationMarkerElement(),
-            size: { width: 48, height: 48 },
-          },
-          dataMode: 'client',
-          nodes: this.createVirtualTourNodes(tour),
+    // (always registered so panoramas can be added while editing)
+    // Links are drawn like markers at the hotspot position, with the hotspot's icon
+    plugins.push([
+      VirtualTourPlugin,
+      {
+        positionMode: 'manual',
+        renderMode: '2d',
+        transitionOptions: (_toNode: VirtualTourNode, _fromNode?: VirtualTourNode, fromLink?: VirtualTourLink) => ({
+          showLoader: false,
+          speed: '20rpm',
+          fadeIn: true,
+          rotation: true,
+          ...this.getArrivalOptions(fromLink),
+        }),
+        arrowStyle: {
+          element: (link: VirtualTourLink) => this.createNavigationMarkerElement(link),
+          size: { width: HOTSPOT_SIZE, height: HOTSPOT_SIZE },
         },
-      ]);
-    }
+        dataMode: 'client',
+        nodes: this.createVirtualTourNodes(tour),
+        startNodeId: startPanorama.id,
+      },
+    ]);
 
     // Autorotate Plugin - for auto-tour
     plugins.push([
@@ -159,37 +226,24 @@ export class TourViewer {
   }
 
   /**
-   * Create markers for info hotspots
+   * Create markers for info hotspots and area hotspots
    */
   private createInfoMarkers(panorama: Panorama) {
+    // Navigation points are rendered by the virtual tour as links, navigation areas as markers
     return panorama.hotspots
-      .filter((h): h is Extract<Hotspot, { type: 'info' }> => h.type === 'info')
-      .map((hotspot) => ({
-        id: hotspot.id,
-        position: {
-          yaw: `${hotspot.position.yaw}deg`,
-          pitch: `${hotspot.position.pitch}deg`,
-        },
-        html: this.createInfoMarkerElement(hotspot),
-        anchor: 'center center' as const,
-        tooltip: hotspot.tooltip,
-        data: { hotspot },
-      }));
+      .filter((h) => h.type === 'info' || isAreaHotspot(h))
+      .map((hotspot) => createHotspotMarker(hotspot));
   }
 
   /**
-   * Create HTML element for info hotspot marker
+   * Create HTML element for a navigation link (sized by the plugin, see arrowStyle)
    */
-  private createInfoMarkerElement(hotspot: Extract<Hotspot, { type: 'info' }>): string {
-    return `<div class="hotspot hotspot-info" data-hotspot-id="${hotspot.id}"></div>`;
-  }
-
-  /**
-   * Create HTML element for navigation hotspot marker
-   */
-  private createNavigationMarkerElement(): HTMLElement {
+  private createNavigationMarkerElement(link: VirtualTourLink): HTMLElement {
     const el = document.createElement('div');
-    el.className = 'hotspot hotspot-nav';
+    const hotspot = getMarkerHotspot(link);
+    if (hotspot) {
+      el.innerHTML = createHotspotHtml(hotspot);
+    }
     return el;
   }
 
@@ -197,46 +251,77 @@ export class TourViewer {
    * Create virtual tour nodes from panoramas
    */
   private createVirtualTourNodes(tour: Tour) {
+    const panoramaIds = new Set(tour.panoramas.map((p) => p.id));
+    const budget = getResolutionBudget(this.settings.maxFov);
+
     return tour.panoramas.map((panorama) => ({
       id: panorama.id,
-      panorama: this.selectImageResolution(panorama),
-      name: panorama.name,
+      panorama: createPanoramaSource(panorama, budget),
+      // Link tooltips show the node name as HTML
+      name: escapeHtml(panorama.name),
       position: {
         yaw: panorama.initialView.yaw,
         pitch: panorama.initialView.pitch,
       },
       links: panorama.hotspots
-        .filter((h): h is Extract<Hotspot, { type: 'navigation' }> => h.type === 'navigation')
-        .map((hotspot) => ({
-          nodeId: hotspot.targetPanorama,
-          position: {
-            yaw: `${hotspot.position.yaw}deg`,
-            pitch: `${hotspot.position.pitch}deg`,
-          },
-        })),
+        .filter((h): h is Extract<Hotspot, { type: 'navigation' }> => h.type === 'navigation' && !isAreaHotspot(h))
+        .filter((hotspot) => {
+          // A link to an unknown node would break the virtual tour
+          const valid = panoramaIds.has(hotspot.targetPanorama) && hotspot.targetPanorama !== panorama.id;
+          if (!valid) {
+            console.warn(`Skipping navigation hotspot "${hotspot.id}" in "${panorama.id}": invalid target "${hotspot.targetPanorama}"`);
+          }
+          return valid;
+        })
+        .map((hotspot): VirtualTourLink => {
+          const size = HOTSPOT_SIZE * getHotspotScale(hotspot);
+          return {
+            nodeId: hotspot.targetPanorama,
+            position: {
+              yaw: `${hotspot.position.yaw}deg`,
+              pitch: `${hotspot.position.pitch}deg`,
+            },
+            arrowStyle: { size: { width: size, height: size } },
+            data: { hotspot },
+          };
+        }),
     }));
   }
 
   /**
-   * Select appropriate image resolution based on device
+   * Convert FOV to Photo Sphere Viewer zoom level (0-100)
    */
-  private selectImageResolution(panorama: Panorama): string {
-    const isMobile = window.innerWidth <= 768 || 
-      /Android|iPhone|iPad|iPod/i.test(navigator.userAgent);
-    
-    if (isMobile) {
-      return panorama.images.medium || panorama.images.high;
-    }
-    return panorama.images.high;
+  private fovToZoomLevel(fov: number): number {
+    const minFov = this.settings.minFov;
+    const maxFov = this.settings.maxFov;
+    return 100 - ((fov - minFov) / (maxFov - minFov)) * 100;
   }
 
   /**
-   * Convert FOV to Photo Sphere Viewer zoom level (0-100)
+   * Convert Photo Sphere Viewer zoom level (0-100) back to FOV
    */
-  private fovToZoomLevel(fov: number): number {
+  private zoomLevelToFov(zoomLevel: number): number {
     const minFov = this.settings.minFov;
     const maxFov = this.settings.maxFov;
-    return 100 - ((fov - minFov) / (maxFov - minFov)) * 100;
+    return minFov + ((100 - zoomLevel) / 100) * (maxFov - minFov);
+  }
+
+  /**
+   * Notify onViewChange VIEW_CHANGE_DELAY after the last camera movement
+   * (deep links use history.replaceState, which browsers rate-limit)
+   */
+  private scheduleViewChange(): void {
+    if (!this.options.onViewChange) return;
+
+    if (this.viewChangeTimeout !== null) clearTimeout(this.viewChangeTimeout);
+    this.viewChangeTimeout = window.setTimeout(() => {
+      this.viewChangeTimeout = null;
+      // Kiosk playback never settles and is no view worth sharing
+      if (this.state.isAutoTourActive || this.autorotatePlugin?.isEnabled()) return;
+
+      const view = this.getViewState();
+      if (view) this.options.onViewChange?.(view);
+    }, VIEW_CHANGE_DELAY);
   }
 
   /**
@@ -247,26 +332,57 @@ export class TourViewer {
 
     // Handle marker clicks
     this.markersPlugin?.addEventListener('select-marker', (e) => {
-      const hotspot = e.marker.data?.hotspot as Hotspot | undefined;
-      if (hotspot && hotspot.type === 'info') {
-        this.showInfoPopup(hotspot);
+      // The editor handles its own marker selection
+      if (this.state.editorMode) return;
+
+      const hotspot = getMarkerHotspot(e.marker);
+      if (hotspot?.type === 'info') {
+        this.infoPopup?.open(hotspot);
         this.options.onHotspotClick?.(hotspot);
+      } else if (hotspot?.type === 'navigation' && hotspot.targetPanorama) {
+        // Navigation areas are markers, not virtual tour links
+        this.options.onHotspotClick?.(hotspot);
+        void this.goToPanorama(hotspot.targetPanorama, hotspot.arrivalView).catch((error) => {
+          console.warn(`Could not open panorama "${hotspot.targetPanorama}":`, error);
+        });
       }
     });
 
     // Handle panorama changes (virtual tour)
     this.virtualTourPlugin?.addEventListener('node-changed', (e) => {
       this.state.currentPanorama = e.node.id;
-      this.options.onPanoramaChange?.(e.node.id);
-      
-      // Update info markers for new panorama
-      const panorama = this.tour?.panoramas.find((p) => p.id === e.node.id);
-      if (panorama && this.markersPlugin) {
-        this.markersPlugin.clearMarkers();
-        this.createInfoMarkers(panorama).forEach((marker) => {
-          this.markersPlugin?.addMarker(marker);
-        });
+      this.infoPopup?.close();
+      this.viewRange = getViewRange(this.getCurrentPanorama()?.metadata);
+      this.applyViewRange();
+
+      // Update info markers for new panorama (the editor renders its own)
+      if (!this.state.editorMode) {
+        this.refreshMarkers();
       }
+
+      this.options.onPanoramaChange?.(e.node.id);
+      this.scheduleViewChange();
+      this.preloadNeighbours();
+      this.autoTour?.handlePanoramaChange();
+    });
+
+    // Keep the camera inside partial panoramas
+    this.viewer.addEventListener('before-rotate', (e) => {
+      e.position = this.clampToViewRange(e.position);
+    });
+    this.viewer.addEventListener('before-animate', (e) => {
+      if (e.position) e.position = this.clampToViewRange(e.position);
+    });
+
+    // Report camera movements
+    this.viewer.addEventListener('position-updated', () => {
+      this.applyViewRange();
+      this.scheduleViewChange();
+    });
+    this.viewer.addEventListener('zoom-updated', () => {
+      // Zooming out widens the view, which can reach past the image edges
+      this.applyViewRange();
+      this.scheduleViewChange();
     });
 
     // Handle fullscreen changes
@@ -275,67 +391,141 @@ export class TourViewer {
     });
   }
 
+  private clampToViewRange(position: Position): Position {
+    if (!this.viewRange || !this.viewer) return position;
+    return clampPosition(position, this.viewRange, this.viewer.state.hFov, this.viewer.state.vFov);
+  }
+
+  /**
+   * Move the camera back into the view range (drags and inertia bypass before-rotate)
+   */
+  private applyViewRange(): void {
+    if (!this.viewRange || !this.viewer) return;
+
+    const position = this.viewer.getPosition();
+    const clamped = this.clampToViewRange(position);
+    const moved = Math.abs(clamped.pitch - position.pitch) > 1e-6
+      || Math.abs(Math.sin((clamped.yaw - position.yaw) / 2)) > 1e-6;
+    if (moved) {
+      this.viewer.rotate(clamped);
+    }
+  }
+
   /**
-   * Show info popup for a hotspot
+   * Fetch the panoramas linked from the current one in the background
    */
-  private showInfoPopup(hotspot: Extract<Hotspot, { type: 'info' }>): void {
-    // Remove existing popup
-    const existing = document.querySelector('.info-popup');
-    if (existing) existing.remove();
+  private preloadNeighbours(): void {
+    const current = this.getCurrentPanorama();
+    if (!this.preloader || !this.tour || !current) return;
 
-    const content = hotspot.content;
-    if (!content) return;
+    const budget = getResolutionBudget(this.settings.maxFov);
+    const targetIds = new Set(
+      current.hotspots.flatMap((h) => (h.type === 'navigation' && h.targetPanorama !== current.id ? [h.targetPanorama] : []))
+    );
 
-    const popup = document.createElement('div');
-    popup.className = 'info-popup';
-    
-    let html = '';
-    if (content.title) {
-      html += `<h3>${content.title}</h3>`;
+    const panoramas = new Map(this.tour.panoramas.map((p) => [p.id, p]));
+
+    // In link order, the first links get the memory budget
+    this.preloader.preload([...targetIds].flatMap((id) => {
+      const panorama = panoramas.get(id);
+      return panorama ? [{ panoramaId: id, source: createPanoramaSource(panorama, budget) }] : [];
+    }));
+  }
+
+  // ==========================================
+  // Public API
+  // ==========================================
+
+  /**
+   * Replace the tour data of a running viewer (e.g. from the editor)
+   * Keeps the current panorama without reloading if it still exists
+   */
+  updateTour(tour: Tour): void {
+    if (tour.panoramas.length === 0) {
+      throw new Error('Tour has no panoramas');
     }
-    if (content.description) {
-      html += `<p>${content.description}</p>`;
+
+    const previousIds = this.tour?.panoramas.map((p) => p.id).sort().join('|');
+    const nextIds = tour.panoramas.map((p) => p.id).sort().join('|');
+    this.tour = tour;
+
+    if (!this.virtualTourPlugin) return;
+
+    const nodes = this.createVirtualTourNodes(tour);
+    const current = tour.panoramas.find((p) => p.id === this.state.currentPanorama);
+
+    if (previousIds !== nextIds || !current) {
+      // Panoramas were added or removed: rebuild the graph
+      this.virtualTourPlugin.setNodes(nodes, current?.id ?? tour.panoramas[0].id);
+      return;
     }
-    if (content.image) {
-      html += `<img src="${content.image}" alt="${content.title || 'Info'}" loading="lazy" />`;
+
+    // Same panoramas: update names and links in place (no panorama reload)
+    nodes.forEach((node) => {
+      this.virtualTourPlugin?.updateNode({ id: node.id, name: node.name, links: node.links });
+    });
+    if (!this.state.editorMode) {
+      this.refreshMarkers();
     }
-    if (content.video) {
-      html += `<video src="${content.video}" controls playsinline></video>`;
+  }
+
+  /**
+   * Toggle editor mode: the editor owns the markers (including navigation
+   * hotspots) and the virtual tour arrows are hidden, links stay live
+   */
+  setEditorMode(enabled: boolean): void {
+    // The tour would switch panoramas under the editor
+    if (enabled) {
+      this.stopAutoTour();
+      this.closeInfoPopup();
     }
-    if (content.link) {
-      html += `<a href="${content.link.url}" target="_blank" rel="noopener">
-        ${content.link.label || 'Mehr erfahren'} →
-      </a>`;
+    this.state.editorMode = enabled;
+    this.container.classList.toggle('is-editing', enabled);
+
+    if (!enabled) {
+      this.refreshMarkers();
     }
+  }
 
-    popup.innerHTML = html;
-    
-    // Position popup near the hotspot (simplified - center of screen)
-    popup.style.top = '50%';
-    popup.style.left = '50%';
-    popup.style.transform = 'translate(-50%, -50%)';
-
-    document.getElementById('app')?.appendChild(popup);
-
-    // Close popup on click outside
-    const closePopup = (e: MouseEvent) => {
-      if (!popup.contains(e.target as Node)) {
-        popup.remove();
-        document.removeEventListener('click', closePopup);
-      }
-    };
-    setTimeout(() => document.addEventListener('click', closePopup), 100);
+  /**
+   * Re-create the info markers of the current panorama
+   */
+  refreshMarkers(): void {
+    const panorama = this.getCurrentPanorama();
+    if (!panorama || !this.markersPlugin) return;
+
+    this.markersPlugin.clearMarkers();
+    this.createInfoMarkers(panorama).forEach((marker) => {
+      this.markersPlugin?.addMarker(marker);
+    });
   }
 
-  // ==========================================
-  // Public API
-  // ==========================================
+  /**
+   * Navigate to a specific panorama, looking at arrivalView or else the panorama's start view
+   */
+  async goToPanorama(panoramaId: string, arrivalView?: ViewPosition): Promise<void> {
+    const view = arrivalView ?? this.tour?.panoramas.find((p) => p.id === panoramaId)?.initialView;
+    await this.virtualTourPlugin?.setCurrentNode(panoramaId, view ? this.toTransitionView(view) : undefined);
+  }
 
   /**
-   * Navigate to a specific panorama
+   * Camera after following a link: its arrival view, otherwise the plugin
+   * keeps the walking direction. Not applied to setNodes(), which must not
+   * move the camera while editing.
    */
-  goToPanorama(panoramaId: string): void {
-    this.virtualTourPlugin?.setCurrentNode(panoramaId);
+  private getArrivalOptions(link?: VirtualTourLink): VirtualTourTransitionOptions {
+    const hotspot = link ? getMarkerHotspot(link) : undefined;
+    return hotspot?.type === 'navigation' && hotspot.arrivalView ? this.toTransitionView(hotspot.arrivalView) : {};
+  }
+
+  private toTransitionView(view: ViewPosition): VirtualTourTransitionOptions {
+    return {
+      rotateTo: {
+        yaw: (view.yaw * Math.PI) / 180,
+        pitch: (view.pitch * Math.PI) / 180,
+      },
+      zoomTo: this.fovToZoomLevel(view.fov),
+    };
   }
 
   /**
@@ -348,6 +538,73 @@ export class TourViewer {
     }
   }
 
+  /**
+   * Animate the camera to a view
+   * Resolves with false if the animation was interrupted (e.g. by the user)
+   */
+  async animateView(view: ViewPosition, duration: number): Promise<boolean> {
+    if (!this.viewer) return false;
+
+    return this.viewer.animate({
+      yaw: `${view.yaw}deg`,
+      pitch: `${view.pitch}deg`,
+      zoom: this.fovToZoomLevel(view.fov),
+      speed: duration,
+    });
+  }
+
+  /**
+   * Stop a running camera animation
+   */
+  stopAnimation(): void {
+    this.viewer?.stopAnimation();
+  }
+
+  /**
+   * Open the popup of an info hotspot in the current panorama
+   */
+  openInfoHotspot(hotspotId: string): boolean {
+    const hotspot = this.getCurrentPanorama()?.hotspots.find((h) => h.id === hotspotId);
+    if (hotspot?.type !== 'info') return false;
+
+    this.infoPopup?.open(hotspot);
+    return true;
+  }
+
+  closeInfoPopup(): void {
+    this.infoPopup?.close();
+  }
+
+  /**
+   * Get the current panorama and camera position (for deep links)
+   */
+  getViewState(): ViewState | null {
+    if (!this.viewer || !this.state.currentPanorama) return null;
+
+    const position = this.viewer.getPosition();
+    let yaw = (position.yaw * 180) / Math.PI;
+    if (yaw > 180) yaw -= 360;
+
+    return {
+      pano: this.state.currentPanorama,
+      yaw,
+      pitch: (position.pitch * 180) / Math.PI,
+      fov: this.zoomLevelToFov(this.viewer.getZoomLevel()),
+    };
+  }
+
+  /**
+   * Restore a view state, switching panorama first if needed
+   */
+  async setViewState(view: Partial<ViewState>): Promise<void> {
+    if (view.pano && view.pano !== this.state.currentPanorama) {
+      await this.goToPanorama(view.pano);
+    }
+    const current = this.getViewState();
+    if (!current) return;
+    this.setView(view.yaw ?? current.yaw, view.pitch ?? current.pitch, view.fov);
+  }
+
   /**
    * Zoom in
    */
@@ -372,19 +629,26 @@ export class TourViewer {
   }
 
   /**
-   * Start auto-tour
+   * Start auto-tour: rotate each panorama for `autoTourDelay` seconds, then move on
    */
   startAutoTour(): void {
-    this.autorotatePlugin?.start();
-    this.state.isAutoTourActive = true;
+    if (this.state.editorMode) return;
+    this.autoTour?.start(this.settings.autoTourDelay, this.settings.autoTourOrder);
   }
 
   /**
    * Stop auto-tour
    */
   stopAutoTour(): void {
-    this.autorotatePlugin?.stop();
-    this.state.isAutoTourActive = false;
+    this.autoTour?.stop();
+  }
+
+  toggleAutoTour(): void {
+    if (this.state.isAutoTourActive) {
+      this.stopAutoTour();
+    } else {
+      this.startAutoTour();
+    }
   }
 
   /**
@@ -427,6 +691,16 @@ export class TourViewer {
    * Destroy the viewer
    */
   destroy(): void {
+    if (this.viewChangeTimeout !== null) {
+      clearTimeout(this.viewChangeTimeout);
+      this.viewChangeTimeout = null;
+    }
+    this.preloader?.destroy();
+    this.preloader = null;
+    this.autoTour?.destroy();
+    this.autoTour = null;
+    this.infoPopup?.destroy();
+    this.infoPopup = null;
     this.viewer?.destroy();
     this.viewer = null;
     this.markersPlugin = null;
@@ -0,0 +1,133 @@
+/**
+ * Hotspot Markers
+ * One marker representation for all hotspot types, shared by viewer and editor
+ */
+
+import type { MarkerConfig } from '@photo-sphere-viewer/markers-plugin';
+import type { Hotspot, HotspotIcon, HotspotType } from '../types';
+import { escapeHtml, sanitizeUrl } from '../utils/html';
+import { isAreaHotspot } from '../utils/hotspotArea';
+
+const HOTSPOT_CLASSES: Record<HotspotType, string> = {
+  info: 'hotspot-info',
+  navigation: 'hotspot-nav',
+};
+
+const DEFAULT_ICONS: Record<HotspotType, HotspotIcon> = {
+  info: 'info',
+  navigation: 'arrow',
+};
+
+/** Colour of hotspots without an own colour (--color-accent) */
+export const DEFAULT_HOTSPOT_COLOR = '#6366f1';
+
+/** Edge length of a hotspot at scale 1 in px */
+export const HOTSPOT_SIZE = 40;
+
+export const MIN_HOTSPOT_SCALE = 0.5;
+export const MAX_HOTSPOT_SCALE = 3;
+
+/** Built-in icons (24px grid, drawn with the hotspot colour) */
+const ICON_SVGS: Record<Exclude<HotspotIcon, 'custom'>, string> = {
+  arrow: '<path d="M12 19V5"/><polyline points="5 12 12 5 19 12"/>',
+  door: '<path d="M6 21V4a1 1 0 0 1 1-1h10a1 1 0 0 1 1 1v17"/><line x1="3" y1="21" x2="21" y2="21"/><line x1="14" y1="12" x2="14" y2="12.01"/>',
+  stairs: '<polyline points="3 20 8 20 8 15 13 15 13 10 18 10 18 5 21 5"/>',
+  info: '<line x1="12" y1="11" x2="12" y2="17"/><line x1="12" y1="7" x2="12" y2="7.01"/>',
+  camera: '<path d="M23 19a2 2 0 0 1-2 2H3a2 2 0 0 1-2-2V8a2 2 0 0 1 2-2h4l2-3h6l2 3h4a2 2 0 0 1 2 2z"/><circle cx="12" cy="13" r="4"/>',
+};
+
+/** Names for the icon picker */
+export const HOTSPOT_ICON_LABELS: Record<HotspotIcon, string> = {
+  arrow: 'Pfeil',
+  door: 'Tür',
+  stairs: 'Treppe',
+  info: 'Info',
+  camera: 'Kamera',
+  custom: 'Eigenes Bild (SVG/PNG)',
+};
+
+export function getDefaultHotspotIcon(type: HotspotType): HotspotIcon {
+  return DEFAULT_ICONS[type];
+}
+
+export function getHotspotIcon(hotspot: Hotspot): HotspotIcon {
+  // A custom icon without a usable image falls back to the default
+  if (hotspot.icon === 'custom' && !getCustomIconUrl(hotspot)) return DEFAULT_ICONS[hotspot.type];
+  return hotspot.icon ?? DEFAULT_ICONS[hotspot.type];
+}
+
+function getCustomIconUrl(hotspot: Hotspot): string | null {
+  return sanitizeUrl(hotspot.iconUrl, { allowDataImage: true });
+}
+
+export function getHotspotScale(hotspot: Hotspot): number {
+  const scale = hotspot.scale ?? 1;
+  return Number.isFinite(scale) ? Math.max(MIN_HOTSPOT_SCALE, Math.min(MAX_HOTSPOT_SCALE, scale)) : 1;
+}
+
+/**
+ * Markup of a hotspot, used for markers and virtual tour links
+ */
+export function createHotspotHtml(hotspot: Hotspot, className = ''): string {
+  const icon = getHotspotIcon(hotspot);
+  const classes = ['hotspot', HOTSPOT_CLASSES[hotspot.type], icon === 'custom' ? 'hotspot-custom' : '', className]
+    .filter(Boolean)
+    .join(' ');
+
+  // Only plain values end up in the style attribute
+  const style = [`--hotspot-scale: ${getHotspotScale(hotspot)}`];
+  if (isValidColor(hotspot.color)) {
+    style.push(`--hotspot-color: ${hotspot.color}`);
+  }
+  if (hotspot.type === 'navigation' && Number.isFinite(hotspot.rotation)) {
+    style.push(`--hotspot-rotation: ${hotspot.rotation}deg`);
+  }
+
+  const content = icon === 'custom'
+    ? `<img src="${escapeHtml(getCustomIconUrl(hotspot) ?? '')}" alt="" draggable="false" />`
+    : `<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2.5" stroke-linecap="round" stroke-linejoin="round">${ICON_SVGS[icon]}</svg>`;
+
+  return `<div class="${classes}" data-hotspot-id="${escapeHtml(hotspot.id)}" style="${style.join('; ')}"><span class="hotspot-icon">${content}</span></div>`;
+}
+
+/**
+ * Create the marker config for a hotspot
+ * PSV renders tooltips as HTML, so the text is escaped here
+ */
+export function createHotspotMarker(hotspot: Hotspot, className = ''): MarkerConfig {
+  if (isAreaHotspot(hotspot)) {
+    // Outline as SVG polygon, highlighted on hover via CSS
+    const color = isValidColor(hotspot.color) ? hotspot.color : DEFAULT_HOTSPOT_COLOR;
+    return {
+      id: hotspot.id,
+      polygon: hotspot.area.map((p): [string, string] => [`${p.yaw}deg`, `${p.pitch}deg`]),
+      className: ['hotspot-area', `${HOTSPOT_CLASSES[hotspot.type]}-area`, className].filter(Boolean).join(' '),
+      svgStyle: { fill: color, stroke: color },
+      tooltip: escapeHtml(hotspot.tooltip ?? ''),
+      data: { hotspot },
+    };
+  }
+
+  return {
+    id: hotspot.id,
+    position: {
+      yaw: `${hotspot.position.yaw}deg`,
+      pitch: `${hotspot.position.pitch}deg`,
+    },
+    html: createHotspotHtml(hotspot, className),
+    anchor: 'center center',
+    tooltip: escapeHtml(hotspot.tooltip ?? ''),
+    data: { hotspot },
+  };
+}
+
+function isValidColor(color: string | undefined): color is string {
+  return !!color && /^#[0-9a-f]{3,8}$/i.test(color);
+}
+
+/**
+ * Get the hotspot a marker was created for
+ */
+export function getMarkerHotspot(marker: { data?: unknown }): Hotspot | undefined {
+  return (marker.data as { hotspot?: Hotspot } | undefined)?.hotspot;
+}
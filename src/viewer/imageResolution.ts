@@ -0,0 +1,82 @@
+/**
+ * Image Resolution
+ * Decides how much panorama resolution a client should load, based on the
+ * physical viewport size and the network instead of the user agent
+ */
+
+export interface ResolutionBudget {
+  /** Panorama width that fills the viewport pixel for pixel at the widest view */
+  requiredWidth: number;
+  /** Largest width worth downloading on the current connection */
+  maxWidth: number;
+}
+
+/** Nominal widths of the uploaded renditions (see api/upload.ts) */
+export const RENDITION_WIDTHS = {
+  low: 512,
+  medium: 2048,
+  high: 4096,
+} as const;
+
+/** Width limits for slow or metered connections */
+const SAVE_DATA_MAX_WIDTH = RENDITION_WIDTHS.medium;
+const SLOW_NETWORK_MAX_WIDTH = RENDITION_WIDTHS.high;
+
+/** Network Information API, not available in all browsers */
+interface NetworkInformation {
+  saveData?: boolean;
+  effectiveType?: 'slow-2g' | '2g' | '3g' | '4g';
+}
+
+/**
+ * Budget for the current device
+ * @param maxFov widest field of view of the viewer in degrees
+ */
+export function getResolutionBudget(maxFov: number): ResolutionBudget {
+  const longEdge = Math.max(window.innerWidth, window.innerHeight) * (window.devicePixelRatio || 1);
+
+  return {
+    requiredWidth: Math.ceil(longEdge * (360 / maxFov)),
+    maxWidth: getNetworkMaxWidth(),
+  };
+}
+
+/**
+ * Levels (ordered small to large) up to the first one that satisfies the
+ * budget; the smallest level is always kept
+ */
+export function limitLevels<T extends { width: number }>(levels: T[], budget: ResolutionBudget): T[] {
+  const result: T[] = [];
+
+  for (const level of levels) {
+    if (result.length > 0 && level.width > budget.maxWidth) break;
+    result.push(level);
+    if (level.width >= budget.requiredWidth) break;
+  }
+
+  return result;
+}
+
+/**
+ * True if the user asked to save data or the connection is very slow
+ */
+export function prefersReducedData(): boolean {
+  const connection = getConnection();
+  return !!connection && (
+    !!connection.saveData || connection.effectiveType === 'slow-2g' || connection.effectiveType === '2g'
+  );
+}
+
+function getNetworkMaxWidth(): number {
+  if (prefersReducedData()) {
+    return SAVE_DATA_MAX_WIDTH;
+  }
+  if (getConnection()?.effectiveType === '3g') {
+    return SLOW_NETWORK_MAX_WIDTH;
+  }
+  return Infinity;
+}
+
+function getConnection(): NetworkInformation | undefined {
+  return (navigator as Navigator & { connection?: NetworkInformation }).connection;
+}
@@ -0,0 +1,69 @@
+/**
+ * Panorama Source
+ * Builds the tiles adapter configuration for a panorama. The viewer always
+ * uses the tiles adapter, which gives progressive loading for free: the low
+ * preview is the base image shown immediately, larger images follow as tiles.
+ */
+
+import type {
+  EquirectangularMultiTilesPanorama,
+  EquirectangularTileLevel,
+} from '@photo-sphere-viewer/equirectangular-tiles-adapter';
+import type { Panorama, PanoramaImages } from '../types';
+import { createPanoDataProvider } from '../utils/panoramaMetadata';
+import { RENDITION_WIDTHS, limitLevels, type ResolutionBudget } from './imageResolution';
+
+export function createPanoramaSource(panorama: Panorama, budget: ResolutionBudget): EquirectangularMultiTilesPanorama {
+  const { images } = panorama;
+
+  // Tiles are always full spheres, partial panoramas load one whole image
+  if (panorama.metadata?.crop) {
+    return createPartialSource(panorama, budget);
+  }
+
+  if (images.tiles && images.tiles.levels.length > 0) {
+    const tiles = images.tiles;
+    return {
+      baseUrl: images.low || images.medium,
+      levels: limitLevels(tiles.levels, budget).map(({ width, cols, rows }) => ({ width, cols, rows })),
+      tileUrl: (col, row, level) => `${tiles.baseUrl}/${level}/${col}_${row}.webp`,
+    };
+  }
+
+  // Each rendition is a level made of a single tile
+  const renditions = getRenditions(images);
+  const levels = limitLevels(renditions, budget);
+
+  return {
+    baseUrl: images.low || levels[0].url,
+    levels: levels.map(({ width }): EquirectangularTileLevel => ({ width, cols: 1, rows: 1 })),
+    tileUrl: (_col, _row, level) => levels[level]?.url ?? null,
+  };
+}
+
+/**
+ * Whole image placed via panoData, the adapter requests no tiles
+ */
+function createPartialSource(panorama: Panorama, budget: ResolutionBudget): EquirectangularMultiTilesPanorama {
+  const levels = limitLevels(getRenditions(panorama.images), budget);
+
+  return {
+    baseUrl: levels[levels.length - 1].url,
+    basePanoData: createPanoDataProvider(panorama.metadata),
+    // A single empty level: the adapter needs one
+    levels: [{ width: 2, cols: 1, rows: 1 }],
+    tileUrl: () => null,
+  };
+}
+
+/**
+ * Medium and high rendition (small to large), without missing or duplicate images
+ */
+function getRenditions(images: PanoramaImages): { width: number; url: string }[] {
+  const renditions = [
+    { width: RENDITION_WIDTHS.medium, url: images.medium },
+    { width: RENDITION_WIDTHS.high, url: images.high },
+  ].filter((rendition, index, all) => rendition.url && all.findIndex((r) => r.url === rendition.url) === index);
+
+  return renditions.length > 0 ? renditions : [{ width: RENDITION_WIDTHS.low, url: images.low }];
+}
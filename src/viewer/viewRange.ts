@@ -0,0 +1,72 @@
+/**
+ * View Range
+ * Limits the camera of partial panoramas to the area covered by the image
+ */
+
+import type { Position } from '@photo-sphere-viewer/core';
+import type { PanoramaMetadata } from '../types';
+
+export interface ViewRange {
+  /** Horizontal extent in degrees, undefined if the panorama covers 360° */
+  yaw?: [number, number];
+  /** Vertical extent in degrees (bottom, top) */
+  pitch: [number, number];
+}
+
+/**
+ * Covered area of a panorama, or null for full spheres
+ */
+export function getViewRange(metadata?: PanoramaMetadata): ViewRange | null {
+  const crop = metadata?.crop;
+  if (!crop) return null;
+
+  // Yaw 0 is the center of the full panorama
+  const toYaw = (x: number) => (x / crop.fullWidth) * 360 - 180;
+  const toPitch = (y: number) => 90 - (y / crop.fullHeight) * 180;
+
+  return {
+    yaw: crop.croppedWidth < crop.fullWidth
+      ? [toYaw(crop.croppedX), toYaw(crop.croppedX + crop.croppedWidth)]
+      : undefined,
+    pitch: [toPitch(crop.croppedY + crop.croppedHeight), toPitch(crop.croppedY)],
+  };
+}
+
+/**
+ * Keep the visible area (position ± half the field of view) inside the range
+ * Position in radians, fields of view in degrees (as in the viewer state)
+ */
+export function clampPosition(position: Position, range: ViewRange, hFov: number, vFov: number): Position {
+  let yaw = toDegrees(position.yaw);
+  let pitch = toDegrees(position.pitch);
+
+  if (range.yaw) {
+    const [min, max] = range.yaw;
+    const center = (min + max) / 2;
+    const limit = Math.max(0, (max - min) / 2 - hFov / 2);
+    // Relative to the center, so ranges across ±180° work too
+    const offset = wrapDegrees(yaw - center);
+    yaw = center + Math.min(limit, Math.max(-limit, offset));
+  }
+
+  const [bottom, top] = range.pitch;
+  const low = bottom + vFov / 2;
+  const high = top - vFov / 2;
+  // If the image is lower than the view, keep it centered
+  pitch = low > high ? (bottom + top) / 2 : Math.min(high, Math.max(low, pitch));
+
+  // The viewer works with yaw in 0..2π
+  return { yaw: toRadians(((yaw % 360) + 360) % 360), pitch: toRadians(pitch) };
+}
+
+function wrapDegrees(angle: number): number {
+  return ((angle + 180) % 360 + 360) % 360 - 180;
+}
+
+function toDegrees(radians: number): number {
+  return (radians * 180) / Math.PI;
+}
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
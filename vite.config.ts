@@ -26,6 +26,7 @@ export default defineConfig({
         main: resolve(__dirname, 'index.html'),
         upload: resolve(__dirname, 'upload.html'),
         admin: resolve(__dirname, 'admin.html'),
+        embed: resolve(__dirname, 'embed.html'),
       },
     },
   },